@@ -16,6 +16,7 @@ import {
   Injector,
   Input,
   NgModule,
+  NgZone,
   OnDestroy,
 } from '@angular/core';
 import { BehaviorSubject, Observable, Subject } from 'rxjs';
@@ -33,10 +34,23 @@ import { Overlay, OverlayModule, ViewportRuler } from '@angular/cdk/overlay';
 import { ComponentPortal } from '@angular/cdk/portal';
 import { Directionality } from '@angular/cdk/bidi';
 import {
+  AnchorRect,
+  AppliedTipPosition,
+  coerceTipPositions,
+  getPhysicalTipSide,
+  getTipSide,
+  OverlayTipAxis,
   OverlayTipPosition,
+  OverlayTipSide,
   OverlayPositionBaseDirective,
+  rankTipSides,
 } from '../directives/overlay-position-base.directive';
 import { CustomResizeObserver } from '../services/CustomResizeObserver';
+import {
+  isBuiltInTooltipTheme,
+  ThemeProperties,
+  TooltipThemeRegistry,
+} from '../services/TooltipThemeRegistry';
 
 /** Hand holder tooltip properties */
 type TutorialTooltipStep = Readonly<Record<'title' | 'exempt', string>>;
@@ -104,6 +118,18 @@ const HOOKED_HAND_HOLDER_REVERTED = 'hooked-hand-holder-reverted';
 
 const HAND_HOLDER_STEP_MAX_HEIGHT = 532;
 const HAND_HOLDER_STEP_MAX_WIDTH = 350;
+/** How far (in px) the arrow sticks out of the step, see `.holder-tip` in hand-holder-step.component.scss */
+const HAND_HOLDER_STEP_ARROW_SIZE = 12;
+/** The gap (in px) the margin of the step keeps between the step & the hooked element */
+const HAND_HOLDER_STEP_STYLED_GAP = 36;
+
+/** Maps the keys of a registered theme to the custom properties of hand-holder-step.component.scss */
+const HAND_HOLDER_STEP_THEME_PROPERTIES: ThemeProperties = {
+  background: '--hand-holder-step-background',
+  textColor: '--hand-holder-step-text-color',
+  borderColor: '--hand-holder-step-accent-color',
+  shadow: '--hand-holder-step-shadow',
+};
 
 /**
  * An object of initial states for each page that has Tutorials embedded in.
@@ -253,7 +279,8 @@ export class AppWalkthroughStore implements OnDestroy {
 
   constructor(
     @Inject(DOCUMENT) public document: Document,
-    public viewportRuler: ViewportRuler
+    public viewportRuler: ViewportRuler,
+    public resizeObserver: CustomResizeObserver
   ) {
     this.main = this.document.querySelector('main') as HTMLElement;
     this._setupScrollStopLsnr();
@@ -473,14 +500,26 @@ export class AppWalkthroughDirective implements OnDestroy {
  */
 @Directive()
 export class InAppWalkthroughOverlayDirective extends OverlayPositionBaseDirective {
-  /** The hand holder's position */
-  protected override _offset = 80;
+  protected override _arrowSize = HAND_HOLDER_STEP_ARROW_SIZE;
+  protected override _styledGap = HAND_HOLDER_STEP_STYLED_GAP;
+  /** The tutorial step isn't rendered yet when the overlay is created */
+  protected override _estimatedPanelSize = {
+    width: HAND_HOLDER_STEP_MAX_WIDTH,
+    height: HAND_HOLDER_STEP_MAX_HEIGHT,
+  };
+  /** The element the tutorial tip is attached to */
+  private _anchorEl: HTMLElement | null = null;
 
-  constructor(private _overlay: Overlay, dir: Directionality) {
+  constructor(
+    private _overlay: Overlay,
+    dir: Directionality,
+    private _ngZone: NgZone
+  ) {
     super(dir);
     dir.change.pipe(takeUntil(this._destroyed)).subscribe(() => {
       if (this._overlayRef) {
         this._updatePosition(this._overlayRef);
+        this._overlayRef.updatePosition();
       }
     });
   }
@@ -500,6 +539,7 @@ export class InAppWalkthroughOverlayDirective extends OverlayPositionBaseDirecti
     });
 
     this._overlayRef = _newOverlayRef;
+    this._anchorEl = eRef.nativeElement;
 
     this._updatePosition(_newOverlayRef);
 
@@ -511,9 +551,30 @@ export class InAppWalkthroughOverlayDirective extends OverlayPositionBaseDirecti
     portal: ComponentPortal<HandHolderStepComponent>,
     elRef: ElementRef<HTMLElement>
   ) {
-    this._createOverlay(elRef);
+    const overlayRef = this._createOverlay(elRef);
+    const { instance } = overlayRef.attach(portal);
+
+    // the arrow follows the fallback position & keeps pointing at the hooked element
+    this._watchTipPlacement(
+      overlayRef,
+      () => elRef.nativeElement.getBoundingClientRect(),
+      () =>
+        overlayRef.overlayElement.querySelector<HTMLElement>(
+          '.holder-tip-wrapper'
+        )
+    )
+      .pipe(takeUntil(overlayRef.detachments()))
+      .subscribe(({ position, arrowOffset }) =>
+        this._ngZone.run(() => {
+          instance.appliedPosition = position;
+          instance.arrowOffset = arrowOffset;
+        })
+      );
+  }
 
-    this._overlayRef.attach(portal);
+  /** The box of the hooked element, measured by the `auto` position */
+  protected override _getAnchorRect(): AnchorRect | null {
+    return this._anchorEl?.getBoundingClientRect() || null;
   }
 
   /** Detaches the overlay from the porta & disposes the overlay */
@@ -547,6 +608,11 @@ export class HandHolderBaseDirective
   /** The hooked element appears in group, the tutorial tip is set as value */
   protected _appearsInGroup!: string;
   protected _skipTipPoint!: boolean;
+  /**
+   * A built-in tooltip theme or one registered in TooltipThemeRegistry.
+   * None by default, the step then takes the custom properties set on its ancestors.
+   */
+  protected _theme = '';
 
   private _main: HTMLElement;
 
@@ -556,9 +622,10 @@ export class HandHolderBaseDirective
     protected _tutorialHookStore: AppWalkthroughStore,
     private _elRef: ElementRef,
     _overlay: Overlay,
-    dir: Directionality
+    dir: Directionality,
+    _ngZone: NgZone
   ) {
-    super(_overlay, dir);
+    super(_overlay, dir, _ngZone);
     this._hookedEl = this._elRef.nativeElement;
     this._main = this._tutorialHookStore.main;
   }
@@ -589,9 +656,9 @@ export class HandHolderBaseDirective
   }
 
   /**
-   * If the hooked element is not visible in the view port, then scroll to it
+   * The scroll position of the main container that brings the hooked element into view
    */
-  private _scrollToHookedElement(
+  private _getHookedElScrollTop(
     option: 'fullway' | 'halfway' = 'fullway',
     offset = 0
   ) {
@@ -604,16 +671,10 @@ export class HandHolderBaseDirective
     // header is not a part of the main container so remove that offset
     // const _newTop = top + offset - this._headerBounds.top;
     const _newTop = top + offset;
-    if (option === 'fullway')
-      this._main.scroll({
-        behavior: 'smooth',
-        top: _newTop - this._getTopViewportOffset(),
-      });
-    if (option === 'halfway')
-      this._main.scroll({
-        behavior: 'smooth',
-        top: _newTop - height / 1.5,
-      });
+
+    return option === 'fullway'
+      ? _newTop - this._getTopViewportOffset()
+      : _newTop - height / 1.5;
   }
 
   private _scrollVerticallyBy(amount: number) {
@@ -628,12 +689,9 @@ export class HandHolderBaseDirective
     this._main.dispatchEvent(new CustomEvent('scroll'));
   }
 
-  private _positionIs(pos: OverlayTipPosition) {
-    return this._tipPosition === pos;
-  }
-
-  private _anyPosition(regExp: RegExp) {
-    return this._tipPosition.match(regExp);
+  /** Compares only the side, the alignment of e.g. `above-start` doesn't matter here */
+  private _positionIs(pos: OverlayTipSide) {
+    return getTipSide(this._tipPosition) === pos;
   }
 
   /**
@@ -642,7 +700,11 @@ export class HandHolderBaseDirective
    * @param pos - new position to be written instead.
    */
   private _makePosition(pos: OverlayTipPosition) {
-    if (!this._appearsInGroup)
+    const _prevPos =
+      this._tutorialHookStore.prevHandHolderPosition()?.[this._handHolder];
+
+    // keeps the position set by the author until it's restored by resetPosition
+    if (!this._appearsInGroup && _prevPos?.step !== this._handHolderStep)
       this._tutorialHookStore.setPrevHandHolderStepPos(
         this._tipPosition,
         this._handHolderStep,
@@ -662,22 +724,24 @@ export class HandHolderBaseDirective
   }
 
   /**
-   * The tutorial step positioning strategy to be applied according to the size of the view port.
+   * The scroll position that brings the hooked element into view according to the size of the view port.
    * Notice that the tutorial is not suitable for small viewports.
    */
-  private _positionHandHolderStep() {
+  private _getHandHolderStepScrollTop() {
     const { width: _vieportWidth, height: _viewportHeight } =
       this._tutorialHookStore.viewportRuler.getViewportRect();
-    const _halfViewportWidth = _vieportWidth / 2;
     const {
-      x,
       y,
       width: _hookedElWidth,
       height: _hookedElHeight,
     } = this._hookedEl.getBoundingClientRect();
+    const { scrollTop } = this._main;
     // delta width < HAND_HOLDER_STEP_MAX_HEIGHT - tip doesn't fit in the remaining horisontal space
     const _deltaWidth = _vieportWidth - _hookedElWidth;
 
+    // `auto` has no side yet, it's measured once the overlay is created
+    if (this._tipPosition === 'auto') return this._getHookedElScrollTop();
+
     // if the element occupies almost full viewport
     if (_deltaWidth < HAND_HOLDER_STEP_MAX_HEIGHT) {
       // whether the position of the tutorial step is above
@@ -685,62 +749,98 @@ export class HandHolderBaseDirective
         // & _hooked element is positioned below HAND_HOLDER_STEP_MAX_HEIGHT relative to view port
         if (y >= HAND_HOLDER_STEP_MAX_HEIGHT) {
           // scroll it almost halfway
-          this._scrollToHookedElement('halfway');
-          return;
-        } else if (Math.abs(y) >= 260 && this._main.scrollTop >= 260) {
-          if (this._isTipFitVertically(_viewportHeight, _hookedElHeight)) {
-            // minimum scroll unit is 100
-            this._scrollVerticallyBy(this._main.scrollTop - 100);
-          } else this._scrollVerticallyBy(this._main.scrollTop - 260);
-          return;
+          return this._getHookedElScrollTop('halfway');
+        } else if (Math.abs(y) >= 260 && scrollTop >= 260) {
+          // minimum scroll unit is 100
+          return this._isTipFitVertically(_viewportHeight, _hookedElHeight)
+            ? scrollTop - 100
+            : scrollTop - 260;
         }
       } else if (this._positionIs('below')) {
-        if (this._isTipFitVertically(_viewportHeight, _hookedElHeight)) {
-          this._scrollToHookedElement();
-          return;
-        }
-        this._scrollVerticallyBy(this._main.scrollTop + y);
-        return;
-      } else if (this._anyPosition(/(left|before|right|after)/)) {
-        if (y >= HAND_HOLDER_STEP_MAX_HEIGHT) {
-          this._makePosition('above');
-          this._scrollToHookedElement('halfway');
-          return;
-        } else if (y <= -260 && this._main.scrollTop >= 260) {
-          this._makePosition('above');
-          // put an offset for smaller view ports
-          this._scrollToHookedElement('fullway', -160);
-          return;
-        }
+        return this._isTipFitVertically(_viewportHeight, _hookedElHeight)
+          ? this._getHookedElScrollTop()
+          : scrollTop + y;
+      } else if (y >= HAND_HOLDER_STEP_MAX_HEIGHT) {
+        return this._getHookedElScrollTop('halfway');
+      } else if (y <= -260 && scrollTop >= 260) {
+        // put an offset for smaller view ports
+        return this._getHookedElScrollTop('fullway', -160);
       }
-    } else if (this._positionIs('above')) {
-      if (this._isTipFitVertically(_viewportHeight, _hookedElHeight)) {
-        if (y >= HAND_HOLDER_STEP_MAX_HEIGHT) {
-          this._scrollToHookedElement();
-        } else {
-          this._makePosition('below');
-        }
-        return;
-      }
-    } else if (
-      x < _halfViewportWidth &&
-      x < HAND_HOLDER_STEP_MAX_WIDTH &&
-      this._anyPosition(/(left|before)/)
-    ) {
-      this._makePosition('right');
-      this._scrollToHookedElement();
-      return;
-    } else if (
-      x > _halfViewportWidth &&
-      x < _vieportWidth - HAND_HOLDER_STEP_MAX_WIDTH &&
-      this._anyPosition(/(right|after)/)
-    ) {
-      this._makePosition('left');
-      this._scrollToHookedElement();
-      return;
-    } else {
-      this._scrollToHookedElement();
+
+      return scrollTop;
+    }
+
+    if (this._positionIs('above')) {
+      return this._isTipFitVertically(_viewportHeight, _hookedElHeight) &&
+        y >= HAND_HOLDER_STEP_MAX_HEIGHT
+        ? this._getHookedElScrollTop()
+        : scrollTop;
     }
+
+    return this._getHookedElScrollTop();
+  }
+
+  /**
+   * The box of the hooked element once the main container is scrolled
+   * @param scrollTop - the scroll position of the main container
+   */
+  private _getScrolledHookedElRect(scrollTop: number): AnchorRect {
+    const { left, top, width, height } = this._hookedEl.getBoundingClientRect();
+    const _maxScrollTop = this._main.scrollHeight - this._main.clientHeight;
+    const _scrollTop = Math.min(Math.max(scrollTop, 0), _maxScrollTop);
+
+    return {
+      left,
+      top: top - (_scrollTop - this._main.scrollTop),
+      width,
+      height,
+    };
+  }
+
+  /**
+   * Flips the tutorial step when it doesn't fit its position once the main container is scrolled.
+   * The side is picked by rankTipSides, the same way the `auto` position & the tooltips flip,
+   * the alignment is kept along the same axis. `auto` is measured once the overlay is created.
+   * @param scrollTop - the scroll position of the main container
+   */
+  private _pickHandHolderStepSide(scrollTop: number) {
+    if (this._tipPosition === 'auto') return;
+
+    const _side = getTipSide(this._tipPosition);
+    const _preferred = getPhysicalTipSide(_side, this._isRtl());
+    const _axis = (side: AppliedTipPosition): OverlayTipAxis =>
+      side === 'above' || side === 'below' ? 'vertical' : 'horizontal';
+    const { width, height } =
+      this._tutorialHookStore.viewportRuler.getViewportRect();
+    const [_best] = rankTipSides({
+      anchor: this._getScrolledHookedElRect(scrollTop),
+      panel: this._estimatedPanelSize,
+      viewport: { width, height },
+      primaryAxis: _axis(_preferred),
+      isRtl: this._isRtl(),
+      margin: this._viewportMargin,
+      preferred: _preferred,
+    });
+
+    if (_best === _preferred) return;
+
+    this._makePosition(
+      _axis(_best) === _axis(_preferred)
+        ? (this._tipPosition.replace(_side, _best) as OverlayTipPosition)
+        : _best
+    );
+  }
+
+  /**
+   * Scrolls the hooked element into view & places the tutorial step on the side that fits there.
+   */
+  private _positionHandHolderStep() {
+    const _scrollTop = this._getHandHolderStepScrollTop();
+
+    this._pickHandHolderStepSide(_scrollTop);
+
+    if (_scrollTop !== this._main.scrollTop)
+      this._scrollVerticallyBy(_scrollTop);
   }
 
   /**
@@ -811,6 +911,7 @@ export class HandHolderBaseDirective
           title,
           exempt,
           position: !this._skipTipPoint ? this._tipPosition : '',
+          theme: this._theme,
           isLast: this._isLastStep,
           // the step starts from 0, so add 1
           currStep: () => step + 1,
@@ -822,6 +923,22 @@ export class HandHolderBaseDirective
 
         // element ref is passed just in case if the overlay is undefined
         this.attachTutorialTip(_handHolderStep, this._elRef);
+        this._repositionOnHookedElResize();
+      });
+  }
+
+  /** Keeps the attached tutorial tip next to the hooked element while its size changes */
+  private _repositionOnHookedElResize() {
+    const overlayRef = this._overlayRef;
+
+    if (!overlayRef) return;
+
+    this._tutorialHookStore.resizeObserver
+      .observe(this._hookedEl)
+      .pipe(takeUntil(overlayRef.detachments()), takeUntil(this._until$))
+      .subscribe(() => {
+        this._updatePosition(overlayRef);
+        overlayRef.updatePosition();
       });
   }
 
@@ -869,6 +986,31 @@ export class HandHolderBaseDirective
     this._tipPosition = position;
   }
 
+  /** Sets the positions tried in order when the tip position doesn't fit */
+  protected _hookHolderFallbackPositions(
+    positions: OverlayTipPosition[] | string
+  ) {
+    this._fallbackPositions = coerceTipPositions(positions);
+  }
+
+  /** Sets the axis the `auto` tip position tries first */
+  protected _hookHolderAutoAxis(axis: OverlayTipAxis) {
+    this._autoPrimaryAxis = axis || 'vertical';
+  }
+
+  /** Sets the gap between the hooked element & the tip of the arrow, the styled gap if empty */
+  protected _hookHolderDistance(distance: any) {
+    this._distance =
+      distance === '' || distance == null
+        ? null
+        : coerceNumberProperty(distance);
+  }
+
+  /** Sets the shift of the tip along the hooked element's side */
+  protected _hookHolderSkid(skid: any) {
+    this._skid = coerceNumberProperty(skid);
+  }
+
   protected _setLastStep() {
     if (this._isLastStep)
       // step starts from 0, but we need the sum of all steps
@@ -914,7 +1056,12 @@ export class HandHolderBaseDirective
         [handHoldersGroupStep],
         [handHoldersGroupLastStep],
         [handHoldersGroupTipPosition],
-        [handHoldersGroupSkipTipPoint]
+        [handHoldersGroupFallbackPositions],
+        [handHoldersGroupAutoAxis],
+        [handHoldersGroupDistance],
+        [handHoldersGroupSkid],
+        [handHoldersGroupSkipTipPoint],
+        [handHoldersGroupTheme]
         `,
 })
 export class HandHoldersGroupDirective
@@ -929,6 +1076,28 @@ export class HandHoldersGroupDirective
     this._hookHolderPosition(position as OverlayTipPosition);
   }
 
+  /** The positions tried in order when the tip position doesn't fit, e.g. `below, above, after` */
+  @Input() set handHoldersGroupFallbackPositions(
+    positions: OverlayTipPosition[] | string
+  ) {
+    this._hookHolderFallbackPositions(positions);
+  }
+
+  /** The axis the `auto` tip position tries first, `vertical` (default) or `horizontal` */
+  @Input() set handHoldersGroupAutoAxis(axis: OverlayTipAxis) {
+    this._hookHolderAutoAxis(axis);
+  }
+
+  /** The gap in px between the hooked element & the tip of the arrow */
+  @Input() set handHoldersGroupDistance(distance: any) {
+    this._hookHolderDistance(distance);
+  }
+
+  /** Shifts the tip in px along the hooked element's side, towards the end or the bottom */
+  @Input() set handHoldersGroupSkid(skid: any) {
+    this._hookHolderSkid(skid);
+  }
+
   @Input() set handHoldersGroupStep(step: any) {
     this._handHolderStep = coerceNumberProperty(step);
 
@@ -948,14 +1117,20 @@ export class HandHoldersGroupDirective
     this._skipTipPoint = coerceBooleanProperty(val);
   }
 
+  /** A built-in tooltip theme, e.g. `dark` or `auto`, or one registered in TooltipThemeRegistry */
+  @Input() set handHoldersGroupTheme(theme: string) {
+    this._theme = theme || '';
+  }
+
   constructor(
     _aths: AppWalkthroughStore,
     _overlay: Overlay,
     _eRef: ElementRef,
     _dir: Directionality,
-    private _takeTheTour: TakeTheTourStore
+    private _takeTheTour: TakeTheTourStore,
+    _ngZone: NgZone
   ) {
-    super(_aths, _eRef, _overlay, _dir);
+    super(_aths, _eRef, _overlay, _dir, _ngZone);
   }
 
   ngAfterViewInit(): void {
@@ -1025,9 +1200,14 @@ export class HandHoldersGroupDirective
     [handHolderHookStep], 
     [handHolderHookLastStep], 
     [handHolderHookTipPosition],
+    [handHolderHookFallbackPositions],
+    [handHolderHookAutoAxis],
+    [handHolderHookDistance],
+    [handHolderHookSkid],
     [handHolderHookInGroup],
     [handHolderHookDisable],
-    [handHolderHookSkipTipPoint]
+    [handHolderHookSkipTipPoint],
+    [handHolderHookTheme]
     `,
 })
 export class HandHolderHookDirective
@@ -1039,11 +1219,36 @@ export class HandHolderHookDirective
     this._handHolder = hook;
   }
 
-  /** Sets the tutorial tip position 'left' | 'right' | 'above' | 'below' | 'before' | 'after' */
+  /**
+   * Sets the tutorial tip position 'left' | 'right' | 'above' | 'below' | 'before' | 'after',
+   * optionally aligned, e.g. 'above-start' or 'after-top', or 'auto' for the side with the most room
+   */
   @Input() set handHolderHookTipPosition(position: string) {
     this._hookHolderPosition(position as OverlayTipPosition);
   }
 
+  /** The positions tried in order when the tip position doesn't fit, e.g. `below, above, after` */
+  @Input() set handHolderHookFallbackPositions(
+    positions: OverlayTipPosition[] | string
+  ) {
+    this._hookHolderFallbackPositions(positions);
+  }
+
+  /** The axis the `auto` tip position tries first, `vertical` (default) or `horizontal` */
+  @Input() set handHolderHookAutoAxis(axis: OverlayTipAxis) {
+    this._hookHolderAutoAxis(axis);
+  }
+
+  /** The gap in px between the hooked element & the tip of the arrow */
+  @Input() set handHolderHookDistance(distance: any) {
+    this._hookHolderDistance(distance);
+  }
+
+  /** Shifts the tip in px along the hooked element's side, towards the end or the bottom */
+  @Input() set handHolderHookSkid(skid: any) {
+    this._hookHolderSkid(skid);
+  }
+
   /** Sets the tutorial tip step */
   @Input() set handHolderHookStep(step: any) {
     this._handHolderStep = coerceNumberProperty(step);
@@ -1076,14 +1281,20 @@ export class HandHolderHookDirective
     this._skipTipPoint = coerceBooleanProperty(val);
   }
 
+  /** A built-in tooltip theme, e.g. `dark` or `auto`, or one registered in TooltipThemeRegistry */
+  @Input() set handHolderHookTheme(theme: string) {
+    this._theme = theme || '';
+  }
+
   constructor(
     _appths: AppWalkthroughStore,
     _eRef: ElementRef,
     _overlay: Overlay,
     _dir: Directionality,
-    private _takeTheTour: TakeTheTourStore
+    private _takeTheTour: TakeTheTourStore,
+    _ngZone: NgZone
   ) {
-    super(_appths, _eRef, _overlay, _dir);
+    super(_appths, _eRef, _overlay, _dir, _ngZone);
   }
 
   ngAfterViewInit(): void {
@@ -1184,10 +1395,23 @@ export class HandHolderHookDirective
 export class HandHolderStepComponent implements AfterViewInit {
   private _animationState = false;
 
+  /** The side the overlay was actually placed on, might differ from props.position */
+  appliedPosition: AppliedTipPosition | null = null;
+  /** Where the arrow points at along the step's edge (in px), centred if null */
+  arrowOffset: number | null = null;
+  /** The CSS custom properties of a registered theme, null for the built-in ones */
+  readonly themeStyles: Record<string, string> | null;
+
   constructor(
     private _aths: AppWalkthroughStore,
-    @Inject(HAND_HOLDER_STEP_COMPONENT) public props: any
-  ) {}
+    @Inject(HAND_HOLDER_STEP_COMPONENT) public props: any,
+    themeRegistry: TooltipThemeRegistry
+  ) {
+    this.themeStyles = themeRegistry.getStyles(
+      props.theme,
+      HAND_HOLDER_STEP_THEME_PROPERTIES
+    );
+  }
 
   ngAfterViewInit(): void {
     // trigger the animation on the first tip appearance
@@ -1231,7 +1455,25 @@ export class HandHolderStepComponent implements AfterViewInit {
   }
 
   get tipPosition(): string {
-    return 'holder-tip-' + this.props.position;
+    // an empty position means that the tip point is skipped
+    const position =
+      this.props.position &&
+      (this.appliedPosition || getTipSide(this.props.position));
+
+    return 'holder-tip-' + position;
+  }
+
+  get arrowOffsetStyle(): string | null {
+    return this.arrowOffset === null ? null : `${this.arrowOffset}px`;
+  }
+
+  /** The registered themes fall back to `light` for the custom properties they omit */
+  get themeClass(): string {
+    if (!this.props.theme) return '';
+
+    return isBuiltInTooltipTheme(this.props.theme)
+      ? ` hand-holder-step-theme-${this.props.theme}`
+      : ' hand-holder-step-theme-light';
   }
 
   get animationClass(): string {
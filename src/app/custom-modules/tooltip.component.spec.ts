@@ -0,0 +1,56 @@
+import { BidiModule, Direction } from '@angular/cdk/bidi';
+import { OverlayContainer } from '@angular/cdk/overlay';
+import { Component, ViewChild } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { TooltipDirective, TooltipModule } from './tooltip.component';
+
+@Component({
+  template: `
+    <div [dir]="dir">
+      <!-- no other side to fall back to, the arrow follows the direction only -->
+      <button
+        customTooltip="Save the changes"
+        customTooltipPosition="before"
+        customTooltipFallbackPositions="before"
+      >
+        Save
+      </button>
+    </div>
+  `,
+})
+class TooltipHostComponent {
+  dir: Direction = 'ltr';
+  @ViewChild(TooltipDirective) tooltip!: TooltipDirective;
+}
+
+describe('TooltipDirective', () => {
+  let fixture: ComponentFixture<TooltipHostComponent>;
+  let overlayContainer: OverlayContainer;
+  /** The arrow of the open tooltip */
+  const getTip = () =>
+    overlayContainer.getContainerElement().querySelector('.tip');
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      imports: [TooltipModule, BidiModule],
+      declarations: [TooltipHostComponent],
+    });
+
+    overlayContainer = TestBed.inject(OverlayContainer);
+    fixture = TestBed.createComponent(TooltipHostComponent);
+    fixture.detectChanges();
+  });
+
+  it('points the arrow of a logical position along with a dir change', () => {
+    fixture.componentInstance.tooltip.show();
+    fixture.detectChanges();
+
+    expect(getTip()?.classList).toContain('tip-left');
+
+    fixture.componentInstance.dir = 'rtl';
+    fixture.detectChanges();
+
+    expect(getTip()?.classList).toContain('tip-right');
+    expect(getTip()?.classList).not.toContain('tip-left');
+  });
+});
@@ -14,8 +14,35 @@ import {
   TemplateRef,
   ViewEncapsulation,
   EmbeddedViewRef,
+  ContentChild,
+  ChangeDetectorRef,
+  Output,
+  EventEmitter,
+  InjectionToken,
+  ModuleWithProviders,
+  Provider,
+  DoCheck,
+  Optional,
+  Self,
+  OnChanges,
+  SimpleChanges,
 } from '@angular/core';
-import { Overlay, OverlayConfig, OverlayModule } from '@angular/cdk/overlay';
+import {
+  AbstractControl,
+  FormControlStatus,
+  NgControl,
+  ValidationErrors,
+} from '@angular/forms';
+import {
+  CdkScrollable,
+  FlexibleConnectedPositionStrategy,
+  Overlay,
+  OverlayConfig,
+  OverlayModule,
+  OverlayRef,
+  ScrollDispatcher,
+  ScrollStrategy,
+} from '@angular/cdk/overlay';
 import {
   ComponentPortal,
   PortalModule,
@@ -27,19 +54,205 @@ import {
   PlatformModule,
 } from '@angular/cdk/platform';
 import { CommonModule, DOCUMENT } from '@angular/common';
-import { take, takeUntil } from 'rxjs/operators';
-import { coerceBooleanProperty } from '@angular/cdk/coercion';
+import { from, isObservable, Observable, of, Subscription } from 'rxjs';
+import { take, takeUntil, throwIfEmpty } from 'rxjs/operators';
+import {
+  coerceBooleanProperty,
+  coerceNumberProperty,
+} from '@angular/cdk/coercion';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule, MatIconRegistry } from '@angular/material/icon';
 import { Directionality } from '@angular/cdk/bidi';
+import { FocusTrap, FocusTrapFactory } from '@angular/cdk/a11y';
 import {
+  AnchorRect,
+  coerceTipPositions,
+  getPhysicalTipSide,
+  getTipSide,
   OverlayPositionBaseDirective,
+  OverlayTipAxis,
   OverlayTipPosition,
+  TipPlacement,
 } from '../directives/overlay-position-base.directive';
 import { DomSanitizer } from '@angular/platform-browser';
+import {
+  DEFAULT_TOOLTIP_GROUP,
+  ManagedTooltip,
+  TooltipManager,
+} from '../services/TooltipManager';
+import {
+  isBuiltInTooltipTheme,
+  TooltipThemeRegistry,
+} from '../services/TooltipThemeRegistry';
+import { CustomResizeObserver } from '../services/CustomResizeObserver';
 
 type ListenerPattern = readonly [string, EventListenerOrEventListenerObject];
 
+type Point = Readonly<{ x: number; y: number }>;
+
+/** Loads the tooltip text on demand, runs with the element when the tooltip is shown */
+export type TooltipContentLoader = (
+  element: HTMLElement
+) =>
+  | string
+  | Promise<string>
+  | Observable<string>;
+
+/** The tooltip text, either ready or loaded asynchronously */
+export type TooltipContent =
+  | string
+  | Promise<string>
+  | Observable<string>
+  | TooltipContentLoader;
+
+export type TooltipContentState = 'ready' | 'loading' | 'error';
+
+/** What opens the tooltip, `manual` leaves it to show(), hide() & toggle() */
+export type TooltipTrigger = 'hover' | 'click' | 'manual';
+
+/**
+ * How the popover closes on a click outside of it:
+ * - `backdrop` - a backdrop blocks the page until it's clicked.
+ * - `outsideClick` - no backdrop, the page stays usable & any click outside closes it.
+ */
+export type TooltipPopoverCloseMode = 'backdrop' | 'outsideClick';
+
+/** Why the tooltip was hidden, reported by `customTooltipHidden` */
+export type TooltipHideReason =
+  | 'outsideClick'
+  | 'escape'
+  | 'closeButton'
+  | 'pointerLeave'
+  | 'blur'
+  | 'scroll'
+  | 'tap'
+  | 'timeout'
+  | 'valid'
+  | 'programmatic';
+
+/** The message of a validation error, the function gets the error's value, e.g. `{ requiredLength: 3 }` */
+export type TooltipErrorMessage = string | ((error: any) => string);
+
+/** Maps the validation error keys (`required`, `minlength`, ...) to their messages */
+export type TooltipErrorMessages = Record<string, TooltipErrorMessage>;
+
+/** The options every tooltip starts with, an input set on the element overrides them */
+export interface CustomTooltipDefaultOptions {
+  position: OverlayTipPosition;
+  /** The axis the `auto` position tries first */
+  autoAxis: OverlayTipAxis;
+  /** The gap in px between the anchor & the tip of the arrow, null keeps the styled gap */
+  distance: number | null;
+  /** Shifts the tooltip in px along the anchor's side, towards the end or the bottom */
+  skid: number;
+  width: number;
+  /** A built-in theme (`light`, `dark`, `info`, `warn`, `error`, `auto`) or a registered one */
+  theme: string;
+  /** The tooltip text color, overrides the theme's one */
+  color: string;
+  /** Overrides the theme's border color */
+  borderColor: string;
+  textSize: string;
+  bold: boolean;
+  trigger: TooltipTrigger;
+  showDelay: number;
+  hideDelay: number;
+  /** How long (in ms) the element has to be touched for the tooltip to show up */
+  longPressDelay: number;
+  /** How long (in ms) a tooltip opened by touch stays open once the finger is lifted, 0 keeps it open */
+  touchDismissDelay: number;
+  /** The theme of the validation errors shown through `customTooltipForControl` */
+  errorTheme: string;
+  /** The messages of the validation errors, `customTooltipErrorMessages` adds to them */
+  errorMessages: TooltipErrorMessages;
+}
+
+/** Used when neither the element nor CUSTOM_TOOLTIP_DEFAULT_OPTIONS set an option */
+const BUILT_IN_TOOLTIP_DEFAULTS: CustomTooltipDefaultOptions = {
+  position: 'below',
+  autoAxis: 'vertical',
+  distance: null,
+  skid: 0,
+  width: 150,
+  theme: 'light',
+  // the theme decides
+  color: '',
+  borderColor: '',
+  textSize: '12px',
+  bold: false,
+  trigger: 'hover',
+  showDelay: 0,
+  hideDelay: 0,
+  longPressDelay: 500,
+  touchDismissDelay: 1500,
+  errorTheme: 'error',
+  errorMessages: {
+    required: 'This field is required',
+    email: 'Enter a valid email address',
+    minlength: ({ requiredLength }) =>
+      `Enter at least ${requiredLength} characters`,
+    maxlength: ({ requiredLength }) =>
+      `Enter at most ${requiredLength} characters`,
+    min: ({ min }) => `The value must be at least ${min}`,
+    max: ({ max }) => `The value must be at most ${max}`,
+    pattern: 'The value has an invalid format',
+  },
+};
+
+/**
+ * The app wide tooltip defaults, set them with TooltipModule.forRoot or provideCustomTooltipDefaults.
+ * Precedence: element input > CUSTOM_TOOLTIP_DEFAULT_OPTIONS > built-in default.
+ */
+export const CUSTOM_TOOLTIP_DEFAULT_OPTIONS = new InjectionToken<
+  Partial<CustomTooltipDefaultOptions>
+>('custom-tooltip-default-options', {
+  providedIn: 'root',
+  factory: () => ({}),
+});
+
+/**
+ * Provides the app wide tooltip defaults.
+ *
+ * #### USAGE
+ * ```typescript
+ * providers: [provideCustomTooltipDefaults({ borderColor: 'palevioletred', showDelay: 200 })]
+ * ```
+ */
+export function provideCustomTooltipDefaults(
+  options: Partial<CustomTooltipDefaultOptions>
+): Provider {
+  return { provide: CUSTOM_TOOLTIP_DEFAULT_OPTIONS, useValue: options };
+}
+
+/**
+ * What the open tooltip does when its element is scrolled, either in the window or in a
+ * `cdkScrollable` container:
+ * - `reposition` - follows the element. Closes once the element is scrolled out of
+ *   the view of a `cdkScrollable` container, the window scrolling only repositions it.
+ * - `close` - closes.
+ * - `block` - blocks the page scrolling while the tooltip is open.
+ */
+export type TooltipScrollStrategy = 'reposition' | 'close' | 'block';
+
+/**
+ * The scroll strategy used by the tooltips that don't set `customTooltipScrollStrategy`.
+ *
+ * #### USAGE
+ * ```typescript
+ * providers: [{ provide: CUSTOM_TOOLTIP_SCROLL_STRATEGY, useValue: 'close' }]
+ * ```
+ */
+export const CUSTOM_TOOLTIP_SCROLL_STRATEGY =
+  new InjectionToken<TooltipScrollStrategy>('custom-tooltip-scroll-strategy', {
+    providedIn: 'root',
+    factory: () => 'reposition',
+  });
+
+/** The context a tooltip template is rendered with, the value is read through `let-value` */
+export interface TooltipTemplateContext<T = any> {
+  $implicit: T;
+}
+
 const _psvLstnrOptions = normalizePassiveListenerOptions({
   passive: true,
 });
@@ -52,7 +265,109 @@ export function removeListener(el: HTMLElement, lstnrs: ListenerPattern[]) {
   lstnrs.forEach((l) => el.removeEventListener(...l, _psvLstnrOptions));
 }
 
-const LONGPRESS_DELAY = 500;
+/** Checks whether the point `p` lies inside the triangle `abc` (edges included). */
+function isPointInTriangle(p: Point, a: Point, b: Point, c: Point) {
+  const side = (p1: Point, p2: Point, p3: Point) =>
+    (p1.x - p3.x) * (p2.y - p3.y) - (p2.x - p3.x) * (p1.y - p3.y);
+
+  const d1 = side(p, a, b);
+  const d2 = side(p, b, c);
+  const d3 = side(p, c, a);
+
+  const hasNegative = d1 < 0 || d2 < 0 || d3 < 0;
+  const hasPositive = d1 > 0 || d2 > 0 || d3 > 0;
+
+  return !(hasNegative && hasPositive);
+}
+
+/** Returns the corners of the rect's edge that faces the point `p`. */
+function getFacingEdge(rect: DOMRect, p: Point): [Point, Point] {
+  const { top, right, bottom, left } = rect;
+
+  if (p.y <= top)
+    return [
+      { x: left, y: top },
+      { x: right, y: top },
+    ];
+  if (p.y >= bottom)
+    return [
+      { x: left, y: bottom },
+      { x: right, y: bottom },
+    ];
+  if (p.x <= left)
+    return [
+      { x: left, y: top },
+      { x: left, y: bottom },
+    ];
+  return [
+    { x: right, y: top },
+    { x: right, y: bottom },
+  ];
+}
+
+/** Returns the other ids the element is described by, without `tooltipId` */
+function getOtherDescribedByIds(element: HTMLElement, tooltipId: string) {
+  return (element.getAttribute('aria-describedby') || '')
+    .split(' ')
+    .filter((id) => !!id && id !== tooltipId);
+}
+
+/** Appends the tooltip's id to `aria-describedby`, keeping the ids set by the app */
+function addAriaDescribedBy(element: HTMLElement, tooltipId: string) {
+  const ids = getOtherDescribedByIds(element, tooltipId);
+
+  element.setAttribute('aria-describedby', [...ids, tooltipId].join(' '));
+}
+
+function removeAriaDescribedBy(element: HTMLElement, tooltipId: string) {
+  const ids = getOtherDescribedByIds(element, tooltipId);
+
+  if (ids.length) element.setAttribute('aria-describedby', ids.join(' '));
+  else element.removeAttribute('aria-describedby');
+}
+
+/** The time (in ms) the pointer has to reach an interactive tooltip once it left the element. */
+const INTERACTIVE_GRACE_PERIOD = 150;
+
+/** Used to generate unique ids for the tooltip elements referenced by `aria-describedby` */
+let nextUniqueId = 0;
+
+/** How often (in ms) the pointer speed is sampled while waiting for hover intent. */
+const HOVER_INTENT_INTERVAL = 100;
+
+/** Max distance (in px) the pointer may travel between two samples to be considered resting. */
+const HOVER_INTENT_SENSITIVITY = 7;
+
+/** Max distance (in px) the finger may move during a long press before it's considered a scroll. */
+const LONG_PRESS_MOVE_TOLERANCE = 10;
+
+/** The inline styles customTooltipDisableNativeGestures sets on the element */
+const NATIVE_GESTURE_STYLES = {
+  touchAction: 'none',
+  userSelect: 'none',
+  webkitUserSelect: 'none',
+  webkitTouchCallout: 'none',
+  webkitTapHighlightColor: 'transparent',
+} as const;
+
+type NativeGestureProperty = keyof typeof NATIVE_GESTURE_STYLES;
+
+function getNativeGestureProperties() {
+  return Object.keys(NATIVE_GESTURE_STYLES) as NativeGestureProperty[];
+}
+
+/** The prefixed properties aren't all part of the standard declaration */
+type NativeGestureStyle = CSSStyleDeclaration & {
+  webkitUserSelect?: string;
+  webkitTouchCallout?: string;
+  webkitTapHighlightColor?: string;
+};
+
+/** How far (in px) the arrow sticks out of the tooltip, see `.tip` in tooltip.component.scss */
+export const TOOLTIP_ARROW_SIZE = 8;
+
+/** The gap (in px) the margin of `.custom-tooltip` keeps between the tooltip & its anchor */
+export const TOOLTIP_STYLED_GAP = 24;
 
 /**
  * Custom tooltip directive is a custom implementation of a tooltip for this app.
@@ -83,49 +398,310 @@ const LONGPRESS_DELAY = 500;
  *      customTooltipWidth="300"
  * ></any-html-tag>
  * ```
+ *
+ * #### ASYNC CONTENT
+ * ```html
+ * <!-- `loadUserDetails` runs on the first show, the result is cached for 60s -->
+ * <any-html-tag
+ *      [customTooltip]="loadUserDetails"
+ *      customTooltipCacheTtl="60000"
+ * ></any-html-tag>
+ * ```
+ *
+ * #### USAGE MODE 3
+ * ```html
+ * <!-- one template reused across many rows, the context is available as `let-row` -->
+ * <ng-template #rowTooltip let-row>
+ *      <p>{{ row.name }}</p>
+ * </ng-template>
+ *
+ * <tr *ngFor="let row of rows" [customTooltipPivot]="rowTooltip" [customTooltipContext]="row"></tr>
+ *
+ * <!-- or keep the tooltip styles by putting the template in a custom-tooltip -->
+ * <custom-tooltip #theTooltip>
+ *      <ng-template let-row><p>{{ row.name }}</p></ng-template>
+ * </custom-tooltip>
+ * ```
+ *
+ * #### MANAGED FROM CODE
+ * ```html
+ * <!-- only one tooltip of a group is open at a time, see TooltipManager -->
+ * <any-html-tag
+ *      customTooltip="Add here some tooltip"
+ *      customTooltipId="help-tooltip"
+ *      customTooltipGroup="toolbar"
+ * ></any-html-tag>
+ * ```
+ *
+ * #### INTERACTIVE
+ * ```html
+ * <!-- stays open while the pointer moves from the element into the tooltip -->
+ * <any-html-tag
+ *      [customTooltipPivot]="theTooltip"
+ *      customTooltipInteractive
+ * ></any-html-tag>
+ * ```
+ *
+ * #### MANUAL TRIGGER & LIFECYCLE EVENTS
+ * ```html
+ * <any-html-tag
+ *      #tooltip="customTooltip"
+ *      customTooltip="Add here some tooltip"
+ *      customTooltipTrigger="manual"
+ *      (customTooltipShown)="pauseVideo()"
+ *      (customTooltipHidden)="logHideReason($event)"
+ * ></any-html-tag>
+ * <button (click)="tooltip.toggle()">Help</button>
+ * ```
+ *
+ * #### PLACEMENT
+ * ```html
+ * <!-- lines up the start edges, tries below & then after when there's no room above -->
+ * <any-html-tag
+ *      customTooltip="Add here some tooltip"
+ *      customTooltipPosition="above-start"
+ *      customTooltipFallbackPositions="below-start, after"
+ * ></any-html-tag>
+ * <!-- the side with the most room, above or below if the tooltip fits there -->
+ * <any-html-tag customTooltip="Add here some tooltip" customTooltipPosition="auto"></any-html-tag>
+ * <!-- 4px between the element & the arrow, shifted 10px towards the end -->
+ * <any-html-tag customTooltip="Add here some tooltip" customTooltipDistance="4" customTooltipSkid="10"></any-html-tag>
+ * ```
+ *
+ * #### FOLLOW CURSOR
+ * ```html
+ * <!-- the tooltip tracks the pointer instead of the element's box, e.g. for charts -->
+ * <canvas customTooltip="Add here some tooltip" customTooltipFollowCursor></canvas>
+ * ```
+ *
+ * #### ONLY WHEN TRUNCATED
+ * ```html
+ * <!-- shows the cell's full text, only while it's cut off by the ellipsis -->
+ * <td class="ellipsis" customTooltipOnlyWhenTruncated>{{ row.description }}</td>
+ * ```
+ *
+ * #### DISABLED
+ * ```html
+ * <!-- no tooltip while the form is pristine, the disabled button still gets its own -->
+ * <any-html-tag customTooltip="Add here some tooltip" [customTooltipDisabled]="form.pristine"></any-html-tag>
+ * <button disabled customTooltip="Fill in the form first">Save</button>
+ * ```
+ *
+ * #### POPOVER
+ * ```html
+ * <!-- the focus moves into the popover & goes back to the button once it's closed -->
+ * <button
+ *      [customTooltipPivot]="filters"
+ *      customTooltipTriggerOnClick
+ *      customTooltipPopover
+ *      customTooltipPopoverLabel="Filters"
+ *      customTooltipPopoverCloseMode="outsideClick"
+ * >Filters</button>
+ * ```
+ *
+ * #### FORM CONTROL
+ * ```html
+ * <!-- shows the first validation error once the control is invalid & touched -->
+ * <input formControlName="email" customTooltipForControl customTooltipPosition="right" />
+ * <input
+ *      [formControl]="name"
+ *      [customTooltipForControl]="name"
+ *      [customTooltipErrorMessages]="{ required: 'Tell us your name' }"
+ * />
+ * ```
+ *
+ * #### TOUCH
+ * ```html
+ * <!-- a tap opens & closes the tooltip, it closes on its own after 3s -->
+ * <any-html-tag
+ *      customTooltip="Add here some tooltip"
+ *      customTooltipTapToToggle
+ *      customTooltipTouchDismissDelay="3000"
+ * ></any-html-tag>
+ * ```
+ *
+ * #### DELAYS & HOVER INTENT
+ * ```html
+ * <!-- opens once the pointer slows down over the element, then waits 200ms -->
+ * <any-html-tag
+ *      customTooltip="Add here some tooltip"
+ *      customTooltipShowDelay="200"
+ *      customTooltipHideDelay="100"
+ *      customTooltipHoverIntent
+ * ></any-html-tag>
+ * ```
  */
 @Directive({
+  // the container takes the same inputs, see TooltipContainerDirective
   selector: `
-    [customTooltip], 
-    [customTooltipTriggerOnClick], 
-    [customTooltipBold], 
-    [customTooltipColor], 
-    [customTooltipWidth], 
-    [customTooltipPivot],
-    [customTooltipPosition]`,
+    [customTooltip]:not([customTooltipContainer]), 
+    [customTooltipTriggerOnClick]:not([customTooltipContainer]), 
+    [customTooltipBold]:not([customTooltipContainer]), 
+    [customTooltipColor]:not([customTooltipContainer]), 
+    [customTooltipWidth]:not([customTooltipContainer]), 
+    [customTooltipPivot]:not([customTooltipContainer]),
+    [customTooltipPosition]:not([customTooltipContainer]),
+    [customTooltipOnlyWhenTruncated]:not([customTooltipContainer]),
+    [customTooltipForControl]:not([customTooltipContainer])`,
+  exportAs: 'customTooltip',
 })
 export class TooltipDirective
   extends OverlayPositionBaseDirective
-  implements AfterViewInit, OnDestroy
+  implements AfterViewInit, DoCheck, OnDestroy, ManagedTooltip
 {
   /**
    * Whether to add a click event or not.
    */
   @Input()
   set customTooltipTriggerOnClick(val: any) {
-    this._triggerOnClick = coerceBooleanProperty(val);
+    if (coerceBooleanProperty(val)) this.customTooltipTrigger = 'click';
+    // keeps the trigger set through customTooltipTrigger, whatever the order of the inputs
+    else if (this._triggerOnClick)
+      this.customTooltipTrigger = this._defaults.trigger;
   }
   get customTooltipTriggerOnClick() {
     return this._triggerOnClick;
   }
 
+  /**
+   * What opens the tooltip, `hover` by default. In `manual` mode no listeners are attached
+   * to the element & only show(), hide() & toggle() control the tooltip.
+   */
+  @Input()
+  set customTooltipTrigger(val: TooltipTrigger) {
+    const trigger = val || this._defaults.trigger;
+
+    if (trigger === this._trigger) return;
+
+    this._trigger = trigger;
+    // the backdrop comes with the click trigger
+    this._disposeOverlay();
+    // the listeners of the previous trigger are no longer needed
+    this._detachEvents();
+    this._attachEvents();
+    // the close button comes with the click trigger
+    this._updateOpenTooltip();
+  }
+  get customTooltipTrigger() {
+    return this._trigger;
+  }
+
+  /**
+   * Turns the click triggered tooltip into a popover: a `role="dialog"` that takes the focus,
+   * keeps it while open & gives it back to the element once closed.
+   */
+  @Input()
+  set customTooltipPopover(val: any) {
+    const popover = coerceBooleanProperty(val);
+
+    if (popover === this._popover) return;
+
+    this._popover = popover;
+    this._disposeOverlay();
+    // the element's aria attributes depend on the mode
+    this._detachEvents();
+    this._attachEvents();
+  }
+  get customTooltipPopover() {
+    return this._popover;
+  }
+
+  /** The accessible name of the popover's dialog */
+  @Input()
+  set customTooltipPopoverLabel(val: string) {
+    this._popoverLabel = val || '';
+    this._updateOpenTooltip();
+  }
+  get customTooltipPopoverLabel() {
+    return this._popoverLabel;
+  }
+
+  /** Whether the popover blocks the page with a backdrop (default) or closes on any outside click */
+  @Input()
+  set customTooltipPopoverCloseMode(val: TooltipPopoverCloseMode) {
+    const closeMode = val || 'backdrop';
+
+    if (closeMode === this._popoverCloseMode) return;
+
+    this._popoverCloseMode = closeMode;
+    // the backdrop is set once the overlay is created
+    this._disposeOverlay();
+  }
+  get customTooltipPopoverCloseMode() {
+    return this._popoverCloseMode;
+  }
+
+  /** Emits once the tooltip was opened */
+  @Output() customTooltipShown = new EventEmitter<void>();
+  /** Emits the reason once the tooltip was closed */
+  @Output() customTooltipHidden = new EventEmitter<TooltipHideReason>();
+
+  /**
+   * `above`, `below`, `left`, `right`, `before` or `after`, optionally aligned, e.g. `above-start`.
+   * `auto` picks the side with the most room.
+   */
   @Input() set customTooltipPosition(val: string) {
     if (val) this._tipPosition = val as OverlayTipPosition;
     // set as default
-    else this._tipPosition = 'below';
+    else this._tipPosition = this._defaults.position;
+
+    this._repositionOpenTooltip();
   }
 
   /**
-   * The text for the tooltip, it's important to use only customTooltip or customTooltipPivot
+   * The positions tried in order when the preferred one doesn't fit, either a list or
+   * a comma separated string, e.g. `below, above, after`. Only the inverted position by default.
    */
-  @Input() get customTooltip(): string {
-    return this._message;
+  @Input() set customTooltipFallbackPositions(
+    val: OverlayTipPosition[] | string
+  ) {
+    this._fallbackPositions = coerceTipPositions(val);
+    this._repositionOpenTooltip();
+  }
+  get customTooltipFallbackPositions(): OverlayTipPosition[] {
+    return this._fallbackPositions;
+  }
+
+  /** The axis the `auto` position tries first, `vertical` (default) or `horizontal` */
+  @Input() set customTooltipAutoAxis(val: OverlayTipAxis) {
+    this._autoPrimaryAxis = val || this._defaults.autoAxis;
+    this._repositionOpenTooltip();
+  }
+  get customTooltipAutoAxis(): OverlayTipAxis {
+    return this._autoPrimaryAxis;
+  }
+
+  /** The gap in px between the element & the tip of the arrow, the styled gap if empty */
+  @Input() set customTooltipDistance(val: any) {
+    this._distance =
+      val === '' || val == null
+        ? this._defaults.distance
+        : coerceNumberProperty(val);
+    this._repositionOpenTooltip();
+  }
+  get customTooltipDistance(): number | null {
+    return this._distance;
   }
-  set customTooltip(val: string) {
-    // leave the setter if undefined
-    if (!val) return;
 
-    this._message = val;
+  /** Shifts the tooltip in px along the element's side, towards the end or the bottom */
+  @Input() set customTooltipSkid(val: any) {
+    this._skid = coerceNumberProperty(val, this._defaults.skid);
+    this._repositionOpenTooltip();
+  }
+  get customTooltipSkid(): number {
+    return this._skid;
+  }
+
+  /**
+   * The text for the tooltip, it's important to use only customTooltip or customTooltipPivot
+   */
+  @Input() get customTooltip(): TooltipContent | null {
+    return this._content;
+  }
+  set customTooltip(val: TooltipContent | null | undefined) {
+    // a falsy value clears the tooltip
+    this._content = val || null;
+    this._resetContentCache();
     // detach first the current tooltip
     if (this._overlayRef) {
       this.hide();
@@ -134,14 +710,28 @@ export class TooltipDirective
     this._attachEvents();
     this._updateTooltipMessage();
   }
+  /**
+   * How long (in ms) the asynchronously loaded text is cached for, the loader runs again
+   * on the next show once it expired. Cached forever by default.
+   */
+  @Input()
+  set customTooltipCacheTtl(val: any) {
+    this._cacheTtl = coerceNumberProperty(val, Infinity);
+  }
+  get customTooltipCacheTtl() {
+    return this._cacheTtl;
+  }
   /**
    * A styled complex html implementation of the tooltip.
    */
   @Input()
-  set customTooltipPivot(val: TooltipComponent) {
-    if (val instanceof TooltipComponent) {
-      this._withProjectedHTML = val;
-    }
+  set customTooltipPivot(
+    val: TooltipComponent | TemplateRef<TooltipTemplateContext> | null
+  ) {
+    this._withProjectedHTML = val instanceof TooltipComponent ? val : null;
+    this._withTemplate = val instanceof TemplateRef ? val : null;
+    // the portal belongs to the previous template
+    this._templatePortal = null;
 
     // detach first the current tooltip
     if (this._overlayRef) {
@@ -150,112 +740,711 @@ export class TooltipDirective
 
     this._attachEvents();
   }
-  /** Defines the tooltip text color */
-  @Input() customTooltipColor = 'inherit';
-  /** Defines the tooltip border color, by default it's primary color */
-  @Input() customTooltipBorderColor = '#008071';
-  @Input() customTooltipBold = false;
-  @Input() customTooltipWidth = 150;
-  @Input() customTooltipTextSize = '12px';
-
   /**
-   * The overlay for the tooltip
+   * The data the customTooltipPivot template is rendered with, passed as `$implicit`.
+   * The open tooltip is updated when it changes.
    */
-  private _templatePortal!: TemplatePortal<any> | EmbeddedViewRef<any>;
-  private _tipPortal!: ComponentPortal<TooltipComponent>;
-  private _tipInstance!: TooltipComponent | null;
-  private _withProjectedHTML!: TooltipComponent | null;
-  private readonly _passiveListeners: ListenerPattern[] = [];
-  private _pointerExitEventsInitialized = false;
-  private _message!: string;
-  private _viewInitialized = false;
-  private _isTooltipVisible = false;
-  private _triggerOnClick = false;
+  @Input()
+  set customTooltipContext(val: any) {
+    this._templateContext = val;
 
-  /** Timer started at the last `touchstart` event. */
-  private _touchstartTimeout: any;
+    if (this._embeddedViewRef) {
+      this._embeddedViewRef.context.$implicit = val;
+      this._embeddedViewRef.markForCheck();
+      this._updatePositionOnStable();
+    }
+  }
+  get customTooltipContext() {
+    return this._templateContext;
+  }
+  /**
+   * The tooltip theme: `light` (default), `dark`, `info`, `warn`, `error`, `auto` or one
+   * registered in TooltipThemeRegistry. `auto` follows `prefers-color-scheme` & `prefers-contrast`.
+   */
+  @Input()
+  set customTooltipTheme(val: string) {
+    this._theme = val || this._defaults.theme;
+    this._updateOpenTooltip();
+  }
+  get customTooltipTheme() {
+    return this._theme;
+  }
+  /** Defines the tooltip text color */
+  @Input()
+  set customTooltipColor(val: string) {
+    this._color = val || this._defaults.color;
+    this._updateOpenTooltip();
+  }
+  get customTooltipColor() {
+    return this._color;
+  }
+  /** Defines the tooltip border color, by default it's the theme's one */
+  @Input()
+  set customTooltipBorderColor(val: string) {
+    this._borderColor = val || this._defaults.borderColor;
+    this._updateOpenTooltip();
+  }
+  get customTooltipBorderColor() {
+    return this._borderColor;
+  }
+  @Input()
+  set customTooltipBold(val: any) {
+    this._bold = val == null ? this._defaults.bold : coerceBooleanProperty(val);
+    this._updateOpenTooltip();
+  }
+  get customTooltipBold() {
+    return this._bold;
+  }
+  @Input()
+  set customTooltipWidth(val: any) {
+    this._width = coerceNumberProperty(val, this._defaults.width);
+    this._updateOpenTooltip();
+  }
+  get customTooltipWidth() {
+    return this._width;
+  }
+  @Input()
+  set customTooltipTextSize(val: string) {
+    this._textSize = val || this._defaults.textSize;
+    this._updateOpenTooltip();
+  }
+  get customTooltipTextSize() {
+    return this._textSize;
+  }
 
-  constructor(
-    public eRef: ElementRef,
-    public viewContainerRef: ViewContainerRef,
-    private _overlay: Overlay,
-    private _ngZone: NgZone,
-    private _platform: Platform,
-    @Inject(DOCUMENT) private _document: Document,
-    dir: Directionality
-  ) {
-    super(dir);
+  /** Delay in ms before the tooltip is shown once the pointer enters the element */
+  @Input()
+  set customTooltipShowDelay(val: any) {
+    this._showDelay = coerceNumberProperty(val, this._defaults.showDelay);
+  }
+  get customTooltipShowDelay() {
+    return this._showDelay;
   }
 
-  private _doesPlatformSupportMouseEvents() {
-    return !this._platform.IOS && !this._platform.ANDROID;
+  /** Delay in ms before the tooltip is hidden once the pointer leaves the element */
+  @Input()
+  set customTooltipHideDelay(val: any) {
+    this._hideDelay = coerceNumberProperty(val, this._defaults.hideDelay);
+  }
+  get customTooltipHideDelay() {
+    return this._hideDelay;
   }
 
-  ngAfterViewInit(): void {
-    this._viewInitialized = true;
-    this._attachEvents();
+  /** How long (in ms) the element has to be touched for the tooltip to show up */
+  @Input()
+  set customTooltipLongPressDelay(val: any) {
+    this._longPressDelay = coerceNumberProperty(
+      val,
+      this._defaults.longPressDelay
+    );
+  }
+  get customTooltipLongPressDelay() {
+    return this._longPressDelay;
   }
 
-  private _addOverlay = (options: OverlayConfig) => {
-    if (this._overlayRef) return this._overlayRef;
+  /** How long (in ms) a tooltip opened by touch stays open once the finger is lifted, 0 keeps it open */
+  @Input()
+  set customTooltipTouchDismissDelay(val: any) {
+    this._touchDismissDelay = coerceNumberProperty(
+      val,
+      this._defaults.touchDismissDelay
+    );
+  }
+  get customTooltipTouchDismissDelay() {
+    return this._touchDismissDelay;
+  }
 
-    const positionStrategy = this._overlay
-      .position()
-      .flexibleConnectedTo(this.eRef)
-      .withFlexibleDimensions(false)
-      .withViewportMargin(this._viewportMargin);
+  /** On touch devices a tap on the element opens & closes the tooltip instead of a long press */
+  @Input()
+  set customTooltipTapToToggle(val: any) {
+    const tapToToggle = coerceBooleanProperty(val);
 
-    this._overlayRef = this._overlay.create({
-      positionStrategy,
-      panelClass: 'custom-tooltip-animation',
-      ...options,
-    });
+    if (tapToToggle === this._tapToToggle) return;
 
-    // Update the position of the newly created overlay
-    this._updatePosition(this._overlayRef);
+    this._tapToToggle = tapToToggle;
+    // the touch listeners depend on the mode
+    this._detachEvents();
+    this._attachEvents();
+  }
+  get customTooltipTapToToggle() {
+    return this._tapToToggle;
+  }
 
-    this._overlayRef
-      .outsidePointerEvents()
+  /**
+   * Turns off the text selection, the callout & the touch scrolling over the element on touch
+   * devices, so that they don't get in the way of the long press. Off by default, the
+   * element's own inline styles come back once it's turned off or the directive is destroyed.
+   */
+  @Input()
+  set customTooltipDisableNativeGestures(val: any) {
+    this._disableNativeGestures = coerceBooleanProperty(val);
+    this._disableNativeGesturesIfNecessary();
+  }
+  get customTooltipDisableNativeGestures() {
+    return this._disableNativeGestures;
+  }
+
+  /**
+   * Waits for the pointer to slow down over the element before showing the tooltip,
+   * so that it doesn't flicker when the pointer just crosses the element.
+   */
+  @Input()
+  set customTooltipHoverIntent(val: any) {
+    this._hoverIntent = coerceBooleanProperty(val);
+  }
+  get customTooltipHoverIntent() {
+    return this._hoverIntent;
+  }
+
+  /**
+   * Keeps the tooltip open while the pointer travels from the element into the tooltip,
+   * so that the projected links & buttons can be reached. It closes only once the pointer
+   * left both the element and the tooltip.
+   */
+  @Input()
+  set customTooltipInteractive(val: any) {
+    this._interactive = coerceBooleanProperty(val);
+  }
+  get customTooltipInteractive() {
+    return this._interactive;
+  }
+
+  /** What the open tooltip does on scroll, defaults to CUSTOM_TOOLTIP_SCROLL_STRATEGY */
+  @Input()
+  set customTooltipScrollStrategy(val: TooltipScrollStrategy) {
+    this._scrollStrategy = val || this._defaultScrollStrategy;
+    this._overlayRef?.updateScrollStrategy(this._createScrollStrategy());
+  }
+  get customTooltipScrollStrategy() {
+    return this._scrollStrategy;
+  }
+
+  /** Positions the tooltip relative to the pointer instead of the element's box */
+  @Input()
+  set customTooltipFollowCursor(val: any) {
+    this._followCursor = coerceBooleanProperty(val);
+  }
+  get customTooltipFollowCursor() {
+    return this._followCursor;
+  }
+
+  /**
+   * Shows the tooltip only while the element's content overflows, e.g. when it's cut
+   * by `text-overflow: ellipsis`. The tooltip text defaults to the element's text.
+   */
+  @Input()
+  set customTooltipOnlyWhenTruncated(val: any) {
+    this._onlyWhenTruncated = coerceBooleanProperty(val);
+    // the element's text might be the only content of the tooltip
+    this._attachEvents();
+  }
+  get customTooltipOnlyWhenTruncated() {
+    return this._onlyWhenTruncated;
+  }
+
+  /** Keeps the tooltip closed, the open one is hidden once it gets disabled */
+  @Input()
+  set customTooltipDisabled(val: any) {
+    this._disabled = coerceBooleanProperty(val);
+
+    // also cancels the show that is still pending
+    if (this._disabled) this.hide();
+  }
+  get customTooltipDisabled() {
+    return this._disabled;
+  }
+
+  /**
+   * Shows the validation errors of a form control, the tooltip opens once the control is
+   * invalid & touched, again once its status changes while it's invalid, and closes once
+   * it's valid. The other content, e.g. of `customTooltip`, is shown as usual while the
+   * control is valid. Without a value it uses the element's own form control, e.g. set by
+   * `formControlName`.
+   */
+  @Input()
+  set customTooltipForControl(val: AbstractControl | NgControl | '' | null) {
+    this._controlInput = val;
+    this._controlError = null;
+
+    if (this._isTooltipVisible) this.hide();
+    this._attachEvents();
+  }
+  get customTooltipForControl() {
+    return this._controlInput;
+  }
+
+  /** The messages of the validation errors, added to CUSTOM_TOOLTIP_DEFAULT_OPTIONS' ones */
+  @Input()
+  set customTooltipErrorMessages(val: TooltipErrorMessages | null) {
+    this._errorMessages = { ...this._defaults.errorMessages, ...val };
+  }
+  get customTooltipErrorMessages() {
+    return this._errorMessages;
+  }
+
+  /** The id the tooltip is registered with in TooltipManager, generated if not set */
+  @Input()
+  set customTooltipId(val: string) {
+    const registered = this._viewInitialized;
+
+    if (registered) this._manager.unregister(this);
+    this._id = val || this._tooltipId;
+    if (registered) this._manager.register(this);
+  }
+  get customTooltipId() {
+    return this._id;
+  }
+
+  /** Only one tooltip of the same group is open at a time, unless TooltipManager allows more */
+  @Input()
+  set customTooltipGroup(val: string) {
+    // the tooltip is still open in the previous group
+    if (this._isTooltipVisible) this.hide();
+    this._group = val || DEFAULT_TOOLTIP_GROUP;
+  }
+  get customTooltipGroup() {
+    return this._group;
+  }
+
+  get id() {
+    return this._id;
+  }
+
+  get group() {
+    return this._group;
+  }
+
+  get visible() {
+    return this._isTooltipVisible;
+  }
+
+  /**
+   * The overlay for the tooltip
+   */
+  private _templatePortal!: TemplatePortal<TooltipTemplateContext> | null;
+  /** The view rendered from _templatePortal while the tooltip is open */
+  private _embeddedViewRef: EmbeddedViewRef<TooltipTemplateContext> | null =
+    null;
+  private _withTemplate: TemplateRef<TooltipTemplateContext> | null = null;
+  private _templateContext: any;
+  private _tipPortal!: ComponentPortal<TooltipComponent>;
+  private _tipInstance!: TooltipComponent | null;
+  private _withProjectedHTML!: TooltipComponent | null;
+  private readonly _passiveListeners: ListenerPattern[] = [];
+  private _pointerExitEventsInitialized = false;
+  private _message!: string;
+  private _content: TooltipContent | null = null;
+  private _contentState: TooltipContentState = 'ready';
+  private _contentSubscription: Subscription | null = null;
+  /** When the asynchronous content was loaded, null if it isn't cached */
+  private _contentLoadedAt: number | null = null;
+  private _cacheTtl = Infinity;
+  private _viewInitialized = false;
+  private _isTooltipVisible = false;
+  /** The built-in defaults merged with CUSTOM_TOOLTIP_DEFAULT_OPTIONS */
+  private readonly _defaults: CustomTooltipDefaultOptions;
+  protected override _arrowSize = TOOLTIP_ARROW_SIZE;
+  protected override _styledGap = TOOLTIP_STYLED_GAP;
+  private _trigger: TooltipTrigger;
+  private _popover = false;
+  private _popoverLabel = '';
+  private _popoverCloseMode: TooltipPopoverCloseMode = 'backdrop';
+  /** Keeps the focus inside the open popover */
+  private _focusTrap: FocusTrap | null = null;
+  private _theme: string;
+  private _color: string;
+  private _borderColor: string;
+  private _bold: boolean;
+  private _width: number;
+  private _textSize: string;
+  private _showDelay: number;
+  private _hideDelay: number;
+  private _longPressDelay: number;
+  private _touchDismissDelay: number;
+  private _tapToToggle = false;
+  private _disableNativeGestures = false;
+  /** The element's inline styles from before the native gestures were turned off */
+  private _nativeGestureStyles: Partial<
+    Record<NativeGestureProperty, string>
+  > | null = null;
+  /** Where the finger touched the element, a long press is cancelled once it moved too far */
+  private _touchStartPoint: Point | null = null;
+  private _hoverIntent = false;
+  private _interactive = false;
+  private _followCursor = false;
+  private _onlyWhenTruncated = false;
+  /** Repositions the open tooltip or re-checks the truncation on resize */
+  private _anchorResizeSubscription: Subscription | null = null;
+  private _disabled = false;
+  private _controlInput: AbstractControl | NgControl | '' | null = null;
+  private _errorMessages: TooltipErrorMessages;
+  /** The message of the control's validation error that is shown, null while it's valid */
+  private _controlError: string | null = null;
+  /** The control whose statusChanges are watched, re-subscribed once the control changed */
+  private _watchedControl: AbstractControl | null = null;
+  private _controlStatusSubscription: Subscription | null = null;
+  /** The last status of the watched control, a change opens the tooltip again */
+  private _controlStatus: FormControlStatus | null = null;
+  /** Watches the `disabled` & `aria-disabled` attributes of the element */
+  private _hostDisabledObserver: MutationObserver | null = null;
+  /** The parent that receives the pointer events while the element is disabled */
+  private _disabledHostParent: HTMLElement | null = null;
+  private readonly _disabledHostListeners: ListenerPattern[] = [];
+  /** The inline `pointer-events` of the element, restored once it's enabled */
+  private _hostPointerEvents = '';
+  private _pointerOverDisabledHost = false;
+  private _scrollStrategy: TooltipScrollStrategy;
+  /** The `cdkScrollable` containers of the element, their scrolling is tracked by the overlay */
+  private _scrollableAncestors: CdkScrollable[] = [];
+  /** The pointer coordinates the tooltip is anchored to in follow cursor mode */
+  private _cursorPoint: Point | null = null;
+  /** The animation frame that moves the tooltip to the pointer's last position */
+  private _cursorFrame: number | null = null;
+  private _id!: string;
+  private _group = DEFAULT_TOOLTIP_GROUP;
+  /** Listeners attached to the overlay pane, used by the interactive mode */
+  private readonly _overlayListeners: ListenerPattern[] = [];
+
+  /** Timer started at the last `touchstart` event. */
+  private _touchstartTimeout: any;
+  /** Timer that closes a tooltip opened by touch once the finger was lifted. */
+  private _touchDismissTimeout: any;
+  /** Timer started when the tooltip is scheduled to be shown. */
+  private _showTimeout: any;
+  /** Timer started when the tooltip is scheduled to be hidden. */
+  private _hideTimeout: any;
+  /** Interval that samples the pointer speed while waiting for hover intent. */
+  private _hoverIntentInterval: any;
+  /** The last known pointer coordinates over the element, used for hover intent. */
+  private _pointerCoords = { x: 0, y: 0 };
+  /** Timer that hides an interactive tooltip if the pointer doesn't reach it in time. */
+  private _graceTimeout: any;
+  /**
+   * The area between the point where the pointer left the element & the tooltip's
+   * facing edge, the pointer may cross it without closing an interactive tooltip.
+   */
+  private _safeTriangle: [Point, Point, Point] | null = null;
+  /** The id of the `role="tooltip"` element the trigger is described by */
+  private readonly _tooltipId = `custom-tooltip-${nextUniqueId++}`;
+
+  constructor(
+    public eRef: ElementRef,
+    public viewContainerRef: ViewContainerRef,
+    private _overlay: Overlay,
+    protected _ngZone: NgZone,
+    private _platform: Platform,
+    @Inject(DOCUMENT) private _document: Document,
+    dir: Directionality,
+    private _manager: TooltipManager,
+    private _scrollDispatcher: ScrollDispatcher,
+    @Inject(CUSTOM_TOOLTIP_SCROLL_STRATEGY)
+    private _defaultScrollStrategy: TooltipScrollStrategy,
+    @Inject(CUSTOM_TOOLTIP_DEFAULT_OPTIONS)
+    defaultOptions: Partial<CustomTooltipDefaultOptions>,
+    private _focusTrapFactory: FocusTrapFactory,
+    @Optional() @Self() private _hostControl: NgControl | null,
+    private _resizeObserver: CustomResizeObserver
+  ) {
+    super(dir);
+    this._id = this._tooltipId;
+    this._scrollStrategy = _defaultScrollStrategy;
+
+    this._defaults = { ...BUILT_IN_TOOLTIP_DEFAULTS, ...defaultOptions };
+    this._tipPosition = this._defaults.position;
+    this._autoPrimaryAxis = this._defaults.autoAxis;
+    this._distance = this._defaults.distance;
+    this._skid = this._defaults.skid;
+    this._trigger = this._defaults.trigger;
+    this._theme = this._defaults.theme;
+    this._color = this._defaults.color;
+    this._borderColor = this._defaults.borderColor;
+    this._bold = this._defaults.bold;
+    this._width = this._defaults.width;
+    this._textSize = this._defaults.textSize;
+    this._showDelay = this._defaults.showDelay;
+    this._hideDelay = this._defaults.hideDelay;
+    this._longPressDelay = this._defaults.longPressDelay;
+    this._touchDismissDelay = this._defaults.touchDismissDelay;
+    this._errorMessages = this._defaults.errorMessages;
+
+    // the logical positions, e.g. `before`, move to the other side along with the direction
+    dir.change.pipe(takeUntil(this._destroyed)).subscribe(() => {
+      this._repositionOpenTooltip();
+      // the arrow of the open tooltip flips as well
+      this._updateOpenTooltip();
+    });
+  }
+
+  /** The element the tooltip is shown for, the host unless overridden */
+  protected get _anchor(): HTMLElement {
+    return this.eRef.nativeElement;
+  }
+
+  private get _triggerOnClick() {
+    return this._trigger === 'click';
+  }
+
+  /** The popover mode works only with the click trigger */
+  private get _isPopover() {
+    return this._popover && this._triggerOnClick;
+  }
+
+  private get _hasBackdrop() {
+    return (
+      this._triggerOnClick &&
+      !(this._isPopover && this._popoverCloseMode === 'outsideClick')
+    );
+  }
+
+  private _doesPlatformSupportMouseEvents() {
+    return !this._platform.IOS && !this._platform.ANDROID;
+  }
+
+  ngAfterViewInit(): void {
+    this._viewInitialized = true;
+    this._manager.register(this);
+    this._attachEvents();
+    this._observeHostDisabledState();
+  }
+
+  ngDoCheck(): void {
+    // Angular 14 has no event for the touched state, it's checked along with the view
+    this._checkControl();
+  }
+
+  /** The control set through customTooltipForControl */
+  private get _control(): AbstractControl | null {
+    const control = this._controlInput;
+
+    if (control instanceof NgControl) return control.control;
+    if (control instanceof AbstractControl) return control;
+
+    // the attribute without a value uses the element's own form control
+    return control === '' ? this._hostControl?.control ?? null : null;
+  }
+
+  /** Follows the status of the control, the touched state is only checked along with the view */
+  private _checkControl() {
+    const control = this._viewInitialized ? this._control : null;
+
+    if (control !== this._watchedControl) {
+      this._watchedControl = control;
+      this._controlStatus = null;
+      this._controlStatusSubscription?.unsubscribe();
+      this._controlStatusSubscription =
+        control?.statusChanges.subscribe(() =>
+          this._updateControlError(control)
+        ) ?? null;
+    }
+
+    if (control) this._updateControlError(control);
+  }
+
+  /**
+   * Opens, updates or closes the tooltip. A status change of the control opens it again
+   * even though the message stayed the same, e.g. once it was re-validated.
+   * The value changes that keep the status don't reopen the tooltip the user closed.
+   */
+  private _updateControlError(control: AbstractControl) {
+    const error =
+      control.invalid && control.touched
+        ? this._getErrorMessage(control.errors)
+        : null;
+    const statusChanged = control.status !== this._controlStatus;
+
+    this._controlStatus = control.status;
+
+    if (!statusChanged && error === this._controlError) return;
+    // the status of a valid control changed, e.g. from PENDING
+    if (!error && !this._controlError) return;
+
+    this._controlError = error;
+
+    // views shouldn't be attached or detached while they are being checked
+    Promise.resolve().then(() => {
+      if (this._controlError !== error) return;
+
+      if (!error) {
+        this.hide('valid');
+      } else if (this._tipInstance) {
+        this._tipInstance.tooltip = error;
+        this._updateOpenTooltip();
+      } else {
+        this.hide();
+        this.show();
+      }
+    });
+  }
+
+  /** The message of the first error that has one, errors without a message are ignored */
+  private _getErrorMessage(errors: ValidationErrors | null) {
+    const key = Object.keys(errors || {}).find(
+      (key) => this._errorMessages[key] != null
+    );
+
+    if (!key) return null;
+
+    const message = this._errorMessages[key];
+
+    return typeof message === 'function' ? message(errors![key]) : message;
+  }
+
+  private _addOverlay = (options: OverlayConfig) => {
+    if (this._overlayRef) return this._overlayRef;
+
+    const positionStrategy = this._overlay
+      .position()
+      .flexibleConnectedTo(this._anchor)
+      .withFlexibleDimensions(false)
+      .withViewportMargin(this._viewportMargin);
+
+    const overlayRef = this._overlay.create({
+      positionStrategy,
+      scrollStrategy: this._createScrollStrategy(),
+      panelClass: 'custom-tooltip-animation',
+      ...options,
+    });
+
+    this._overlayRef = overlayRef;
+
+    positionStrategy.positionChanges
+      .pipe(takeUntil(this._destroyed))
+      .subscribe(({ scrollableViewProperties }) => {
+        // don't leave the tooltip stuck over other content once its element is scrolled away
+        if (
+          this._isTooltipVisible &&
+          scrollableViewProperties.isOriginOutsideView
+        ) {
+          this._ngZone.run(() => this.hide('scroll'));
+        }
+      });
+
+    // the close scroll strategy detaches the overlay on its own
+    overlayRef
+      .detachments()
       .pipe(takeUntil(this._destroyed))
       .subscribe(() => {
-        this.hide();
+        if (this._isTooltipVisible) this._ngZone.run(() => this.hide('scroll'));
+      });
+
+    // Update the position of the newly created overlay
+    this._updatePosition(overlayRef);
+
+    this._overlayListeners.push(
+      [
+        'mouseenter',
+        () => {
+          if (!this._interactive) return;
+          // the pointer made it into the tooltip
+          this._stopSafeTriangle();
+          this._clearHideTimeout();
+        },
+      ],
+      [
+        'mouseleave',
+        (event) => {
+          if (!this._interactive) return;
+
+          const target = (event as MouseEvent).relatedTarget as Node | null;
+          // moving back to the element is handled by its own listeners
+          if (target && this._anchor.contains(target)) return;
+
+          this._scheduleHide('pointerLeave');
+        },
+      ]
+    );
+    addListener(overlayRef.overlayElement, this._overlayListeners);
+
+    this._watchTipPlacement(
+      overlayRef,
+      () => this._getAnchorRect(),
+      () =>
+        overlayRef.overlayElement.querySelector<HTMLElement>(
+          '.custom-tooltip'
+        )
+    ).subscribe((placement) =>
+      this._ngZone.run(() => this._applyTipPlacement(placement))
+    );
+
+    overlayRef
+      .outsidePointerEvents()
+      .pipe(takeUntil(this._destroyed))
+      .subscribe((event) => {
+        if (this._trigger === 'manual') return;
+        // on touch devices & with the click trigger the element handles its own clicks
+        if (
+          (!this._doesPlatformSupportMouseEvents() || this._triggerOnClick) &&
+          this._anchor.contains(event.target as Node)
+        )
+          return;
+
+        this.hide('outsideClick');
       });
 
-    this._overlayRef
+    overlayRef
       .keydownEvents()
       .pipe(takeUntil(this._destroyed))
       .subscribe((event) => {
-        if (event.code === 'Escape') {
+        if (event.code === 'Escape' && this._trigger !== 'manual') {
           event.preventDefault();
           event.stopPropagation();
-          this._ngZone.run(() => this.hide());
+          this._ngZone.run(() => this.hide('escape'));
         }
       });
 
-    return this._overlayRef;
+    return overlayRef;
   };
 
   private _attachEvents() {
+    // the inputs are all set once the view is initialized
+    if (!this._viewInitialized || this._trigger === 'manual') return;
+
+    // not passive, the default action is prevented when the tooltip is closed
+    this.eRef.nativeElement.addEventListener(
+      'keydown',
+      this._triggerKeydownListener
+    );
+
+    if (this._isPopover) {
+      this.eRef.nativeElement.setAttribute('aria-haspopup', 'dialog');
+      this.eRef.nativeElement.setAttribute('aria-expanded', 'false');
+    }
+
     if (this._triggerOnClick) {
       this._enablePointer();
       this._toggleTooltipOnClickEvent();
     }
     // Won't fire when the tooltip is triggered on click
     else this._addEnterEventListeners();
+
+    this._updateDisabledHost();
+  }
+
+  private _detachEvents() {
+    const element = this.eRef.nativeElement as HTMLElement;
+
+    this._removeListeners(this._passiveListeners);
+    this._passiveListeners.length = 0;
+    this._pointerExitEventsInitialized = false;
+    element.removeEventListener('keydown', this._triggerKeydownListener);
+    this._untrackDisabledHost();
+    element.removeAttribute('aria-haspopup');
+    element.removeAttribute('aria-expanded');
+    element.removeAttribute('aria-controls');
   }
 
   private _toggleTooltipOnClickEvent() {
     if (
-      (!this.customTooltip && !this._withProjectedHTML) ||
-      this._viewInitialized ||
+      !this._hasContent() ||
       this._passiveListeners.length
     )
       return;
     this._passiveListeners.push([
       'click',
       () => {
-        if (this._isTooltipVisible) return;
-        this.show();
+        if (!this._isTooltipVisible) this.show();
+        // the popover's element toggles it, like a menu button
+        else if (this._isPopover) this.hide('tap');
       },
     ]);
 
@@ -263,110 +1452,616 @@ export class TooltipDirective
     this._addListeners(this._passiveListeners);
   }
 
-  private _enablePointer() {
-    const _element = this.eRef.nativeElement as HTMLElement;
-    _element.style.cursor = 'pointer';
+  protected _hasContent() {
+    return !!this._control || this._hasOwnContent();
+  }
+
+  /** The content other than the control's errors, it's shown while the control is valid */
+  private _hasOwnContent() {
+    return !!(
+      this.customTooltip ||
+      this._withProjectedHTML ||
+      this._withTemplate ||
+      this._onlyWhenTruncated
+    );
+  }
+
+  /** Whether the element's text is shown since no other content was set */
+  private _usesElementText() {
+    return (
+      this._onlyWhenTruncated &&
+      !this.customTooltip &&
+      !this._withProjectedHTML &&
+      !this._withTemplate
+    );
+  }
+
+  private _isTruncated() {
+    const element = this._anchor;
+
+    return (
+      element.scrollWidth > element.clientWidth ||
+      element.scrollHeight > element.clientHeight
+    );
+  }
+
+  private _isHostDisabled() {
+    const element = this.eRef.nativeElement as HTMLElement;
+
+    return (
+      element.matches(':disabled') ||
+      element.getAttribute('aria-disabled') === 'true'
+    );
+  }
+
+  /** Switches between the element's & its parent's listeners whenever the element gets (en|dis)abled */
+  private _observeHostDisabledState() {
+    this._ngZone.runOutsideAngular(() => {
+      this._hostDisabledObserver = new MutationObserver(() =>
+        this._updateDisabledHost()
+      );
+      this._hostDisabledObserver.observe(this.eRef.nativeElement, {
+        attributes: true,
+        attributeFilter: ['disabled', 'aria-disabled'],
+      });
+    });
+  }
+
+  private _updateDisabledHost() {
+    const hostDisabled =
+      this._viewInitialized &&
+      this._trigger !== 'manual' &&
+      this._isHostDisabled();
+
+    if (hostDisabled) this._trackDisabledHost();
+    else this._untrackDisabledHost();
+  }
+
+  /**
+   * Browsers don't fire mouse events on disabled buttons, so the element lets the pointer
+   * events through to its parent, which checks whether the pointer is over the element's box.
+   */
+  private _trackDisabledHost() {
+    const element = this.eRef.nativeElement as HTMLElement;
+    const parent = element.parentElement;
+
+    if (!parent || this._disabledHostParent) return;
+
+    this._disabledHostParent = parent;
+    this._hostPointerEvents = element.style.pointerEvents;
+    element.style.pointerEvents = 'none';
+
+    this._disabledHostListeners.push(
+      [
+        'mousemove',
+        (event) => this._disabledHostPointerListener(event as MouseEvent),
+      ],
+      ['mouseleave', () => this._leaveDisabledHost()]
+    );
+
+    if (this._triggerOnClick) {
+      this._disabledHostListeners.push([
+        'click',
+        (event) => {
+          const { clientX: x, clientY: y } = event as MouseEvent;
+
+          if (!this._isTooltipVisible && this._isPointOverHost({ x, y })) {
+            this._ngZone.run(() => this.show());
+          }
+        },
+      ]);
+    }
+
+    this._ngZone.runOutsideAngular(() =>
+      addListener(parent, this._disabledHostListeners)
+    );
+  }
+
+  private _untrackDisabledHost() {
+    if (!this._disabledHostParent) return;
+
+    removeListener(this._disabledHostParent, this._disabledHostListeners);
+    this._disabledHostListeners.length = 0;
+    this._disabledHostParent = null;
+    this._pointerOverDisabledHost = false;
+    this.eRef.nativeElement.style.pointerEvents = this._hostPointerEvents;
+  }
+
+  private _isPointOverHost({ x, y }: Point) {
+    const { left, right, top, bottom } = (
+      this.eRef.nativeElement as HTMLElement
+    ).getBoundingClientRect();
+
+    return x >= left && x <= right && y >= top && y <= bottom;
+  }
+
+  /** Emulates `mouseenter` & `mouseleave` on the disabled element */
+  private _disabledHostPointerListener(event: MouseEvent) {
+    const isOver = this._isPointOverHost({
+      x: event.clientX,
+      y: event.clientY,
+    });
+
+    if (isOver === this._pointerOverDisabledHost) {
+      if (isOver && this._followCursor) this._cursorListener(event);
+      return;
+    }
+
+    this._pointerOverDisabledHost = isOver;
+
+    // the click trigger is handled by the parent's `click` listener
+    if (this._triggerOnClick) return;
+
+    this._ngZone.run(() => {
+      if (isOver) {
+        if (this._followCursor) this._trackCursor(event);
+        this._scheduleShow(event);
+      } else {
+        this._scheduleHide('pointerLeave');
+      }
+    });
+  }
+
+  private _leaveDisabledHost() {
+    if (!this._pointerOverDisabledHost) return;
+
+    this._pointerOverDisabledHost = false;
+    if (!this._triggerOnClick) {
+      this._ngZone.run(() => this._scheduleHide('pointerLeave'));
+    }
+  }
+
+  protected _enablePointer() {
+    const _element = this.eRef.nativeElement as HTMLElement;
+    _element.style.cursor = 'pointer';
+  }
+
+  private _addEnterEventListeners() {
+    // don't attach any event if the tooltip is not initialized
+    if (
+      !this._hasContent() ||
+      this._passiveListeners.length
+    )
+      return;
+
+    if (this._doesPlatformSupportMouseEvents() && !this._triggerOnClick) {
+      this._passiveListeners.push([
+        'mouseenter',
+        (event) => {
+          this._addExitEventListeners();
+          if (this._followCursor) this._trackCursor(event as MouseEvent);
+          this._scheduleShow(event as MouseEvent);
+        },
+      ]);
+    } else if (this._tapToToggle) {
+      this._passiveListeners.push([
+        'click',
+        () => {
+          if (this._isTooltipVisible) {
+            this.hide('tap');
+            return;
+          }
+
+          this.show();
+          this._scheduleTouchDismiss();
+        },
+      ]);
+    } else {
+      this._passiveListeners.push(
+        [
+          'touchstart',
+          (event) => {
+            // Note that it's important that we don't `preventDefault` here,
+            // because it can prevent click events from firing on the element.
+            // The listener is passive as well, so that the page still scrolls.
+            const { clientX: x, clientY: y } = (event as TouchEvent).touches[0];
+
+            this._addExitEventListeners();
+            this._touchStartPoint = { x, y };
+            clearTimeout(this._touchstartTimeout);
+            clearTimeout(this._touchDismissTimeout);
+            this._touchstartTimeout = setTimeout(
+              () => this.show(),
+              this._longPressDelay
+            );
+          },
+        ],
+        [
+          'touchmove',
+          (event) => {
+            if (!this._touchStartPoint) return;
+
+            const { clientX, clientY } = (event as TouchEvent).touches[0];
+            const distance = Math.hypot(
+              clientX - this._touchStartPoint.x,
+              clientY - this._touchStartPoint.y
+            );
+
+            // the finger is scrolling the page
+            if (distance > LONG_PRESS_MOVE_TOLERANCE) {
+              this._touchStartPoint = null;
+              clearTimeout(this._touchstartTimeout);
+            }
+          },
+        ]
+      );
+    }
+
+    // keyboard users get the tooltip once the element receives focus
+    this._passiveListeners.push(
+      ['focus', () => this._showAfterDelay()],
+      ['blur', () => this._scheduleHide('blur')]
+    );
+    this._addListeners(this._passiveListeners);
+  }
+
+  private _addExitEventListeners() {
+    if (this._pointerExitEventsInitialized) return;
+
+    this._pointerExitEventsInitialized = true;
+
+    if (this._doesPlatformSupportMouseEvents()) {
+      /**
+       * Does not add these events when trigger on click is enabled.
+       * Instead a close button will be used. Just imagine it,
+       * a tooltip enabled on click with a close button, how ridiculous it is.
+       * This is because of a dumb law he had to comply with, but what kind of a person
+       * with impaired vision would use this app with a screen reader ?
+       * I mean common, ridiculousness.
+       */
+      if (this._triggerOnClick) {
+        return;
+      }
+
+      this._passiveListeners.push(
+        [
+          'mouseleave',
+          (event) => {
+            if (this._interactive && this._isTooltipVisible) {
+              this._waitForPointerToReachTooltip(event as MouseEvent);
+            } else {
+              this._scheduleHide('pointerLeave');
+            }
+          },
+        ],
+        [
+          'wheel',
+          (event) => {
+            this._wheelListener(event as WheelEvent);
+          },
+        ]
+      );
+    } else {
+      // the tooltip stays open once the finger is lifted, until a tap outside or the dismiss delay
+      const touchendListener = () => {
+        clearTimeout(this._touchstartTimeout);
+        this._touchStartPoint = null;
+        this._scheduleTouchDismiss();
+      };
+
+      this._passiveListeners.push(
+        ['touchend', touchendListener],
+        ['touchcancel', touchendListener]
+      );
+    }
+
+    this._addListeners(this._passiveListeners);
+  }
+
+  /**
+   * Shows the tooltip after the configured delay. In hover intent mode it waits
+   * first for the pointer to rest over the element.
+   */
+  private _scheduleShow(event: MouseEvent) {
+    // the pointer came back to the element before the tooltip was hidden
+    this._clearHideTimeout();
+
+    if (this._isTooltipVisible) return;
+
+    if (this._hoverIntent) {
+      this._waitForHoverIntent(event);
+    } else {
+      this._showAfterDelay();
+    }
+  }
+
+  private _showAfterDelay() {
+    clearTimeout(this._showTimeout);
+
+    if (!this._showDelay) {
+      this.show();
+      return;
+    }
+
+    this._showTimeout = setTimeout(() => this.show(), this._showDelay);
+  }
+
+  /** Hides the tooltip after the configured delay, cancels a pending show if there is one. */
+  private _scheduleHide(reason: TooltipHideReason) {
+    this._clearShowTimers();
+    this._clearHideTimeout();
+
+    if (!this._hideDelay) {
+      this.hide(reason);
+      return;
+    }
+
+    this._hideTimeout = setTimeout(() => this.hide(reason), this._hideDelay);
+  }
+
+  /**
+   * Samples the pointer position every HOVER_INTENT_INTERVAL ms and schedules the tooltip
+   * once the pointer travelled less than HOVER_INTENT_SENSITIVITY px between two samples.
+   */
+  private _waitForHoverIntent(event: MouseEvent) {
+    this._stopHoverIntent();
+
+    this._pointerCoords = { x: event.clientX, y: event.clientY };
+    let prevCoords = this._pointerCoords;
+
+    // pointer tracking doesn't need to trigger change detection
+    this._ngZone.runOutsideAngular(() => {
+      this._anchor.addEventListener(
+        'mousemove',
+        this._trackPointer,
+        _psvLstnrOptions
+      );
+
+      this._hoverIntentInterval = setInterval(() => {
+        const { x, y } = this._pointerCoords;
+
+        if (
+          Math.hypot(x - prevCoords.x, y - prevCoords.y) <
+          HOVER_INTENT_SENSITIVITY
+        ) {
+          this._stopHoverIntent();
+          this._ngZone.run(() => this._showAfterDelay());
+        } else {
+          prevCoords = this._pointerCoords;
+        }
+      }, HOVER_INTENT_INTERVAL);
+    });
+  }
+
+  private _trackPointer = (event: Event) => {
+    const { clientX, clientY } = event as MouseEvent;
+    this._pointerCoords = { x: clientX, y: clientY };
+  };
+
+  private _stopHoverIntent() {
+    clearInterval(this._hoverIntentInterval);
+    this._hoverIntentInterval = null;
+    this._anchor.removeEventListener(
+      'mousemove',
+      this._trackPointer,
+      _psvLstnrOptions
+    );
+  }
+
+  /**
+   * Gives the pointer a grace period to reach an interactive tooltip. The period is renewed
+   * as long as the pointer moves inside the safe triangle between the element & the tooltip.
+   */
+  private _waitForPointerToReachTooltip(event: MouseEvent) {
+    this._stopSafeTriangle();
+
+    const pane = this._overlayRef?.overlayElement;
+
+    if (!pane) {
+      this._scheduleHide('pointerLeave');
+      return;
+    }
+
+    const apex = { x: event.clientX, y: event.clientY };
+    const paneRect = pane.getBoundingClientRect();
+
+    this._safeTriangle = [apex, ...getFacingEdge(paneRect, apex)];
+
+    this._ngZone.runOutsideAngular(() => {
+      this._document.addEventListener(
+        'mousemove',
+        this._safeTriangleListener,
+        _psvLstnrOptions
+      );
+      this._restartGracePeriod();
+    });
+  }
+
+  private _safeTriangleListener = (event: Event) => {
+    if (!this._safeTriangle) return;
+
+    const { clientX, clientY, target } = event as MouseEvent;
+    const reachedTooltip =
+      target instanceof Node &&
+      (this._overlayRef?.overlayElement.contains(target) ||
+        this._anchor.contains(target));
+
+    if (reachedTooltip) {
+      this._stopSafeTriangle();
+    } else if (
+      isPointInTriangle({ x: clientX, y: clientY }, ...this._safeTriangle)
+    ) {
+      this._restartGracePeriod();
+    } else {
+      this._stopSafeTriangle();
+      this._ngZone.run(() => this._scheduleHide('pointerLeave'));
+    }
+  };
+
+  private _restartGracePeriod() {
+    clearTimeout(this._graceTimeout);
+    this._graceTimeout = setTimeout(() => {
+      this._stopSafeTriangle();
+      this._ngZone.run(() => this._scheduleHide('pointerLeave'));
+    }, INTERACTIVE_GRACE_PERIOD);
+  }
+
+  private _stopSafeTriangle() {
+    clearTimeout(this._graceTimeout);
+    this._graceTimeout = null;
+    this._safeTriangle = null;
+    this._document.removeEventListener(
+      'mousemove',
+      this._safeTriangleListener,
+      _psvLstnrOptions
+    );
+  }
+
+  /** Follows the pointer over the element, the tooltip is moved at most once per frame */
+  private _trackCursor(event: MouseEvent) {
+    this._cursorPoint = { x: event.clientX, y: event.clientY };
+
+    this._ngZone.runOutsideAngular(() => {
+      this._anchor.addEventListener(
+        'mousemove',
+        this._cursorListener,
+        _psvLstnrOptions
+      );
+    });
+  }
+
+  private _cursorListener = (event: Event) => {
+    const { clientX, clientY } = event as MouseEvent;
+    this._cursorPoint = { x: clientX, y: clientY };
+
+    if (this._cursorFrame !== null || !this._overlayRef?.hasAttached()) return;
+
+    this._cursorFrame = requestAnimationFrame(() => {
+      this._cursorFrame = null;
+
+      if (!this._cursorPoint || !this._overlayRef?.hasAttached()) return;
+
+      this._getPositionStrategy(this._overlayRef).setOrigin(
+        this._cursorPoint
+      );
+      this._overlayRef.updatePosition();
+    });
+  };
+
+  private _stopTrackingCursor() {
+    if (this._cursorFrame !== null) cancelAnimationFrame(this._cursorFrame);
+
+    this._cursorFrame = null;
+    this._cursorPoint = null;
+    this._anchor.removeEventListener(
+      'mousemove',
+      this._cursorListener,
+      _psvLstnrOptions
+    );
+  }
+
+  /** The box the tooltip is anchored to, either the element or the pointer */
+  protected override _getAnchorRect(): AnchorRect {
+    if (this._followCursor && this._cursorPoint) {
+      const { x, y } = this._cursorPoint;
+      return { left: x, top: y, width: 0, height: 0 };
+    }
+
+    return this._anchor.getBoundingClientRect();
+  }
+
+  /** Points the arrow to the side the overlay was actually placed on */
+  private _applyTipPlacement({ position, arrowOffset }: TipPlacement) {
+    const tooltip = this._tipInstance || this._withProjectedHTML;
+
+    if (!tooltip || !this._isTooltipVisible) return;
+
+    tooltip.tipPosition = position;
+    tooltip.arrowOffset = arrowOffset;
+    tooltip.markForCheck();
+    this._embeddedViewRef?.detectChanges();
+  }
+
+  private _createScrollStrategy(): ScrollStrategy {
+    switch (this._scrollStrategy) {
+      case 'close':
+        return this._overlay.scrollStrategies.close();
+      case 'block':
+        return this._overlay.scrollStrategies.block();
+      default:
+        return this._overlay.scrollStrategies.reposition({
+          scrollThrottle: 20,
+        });
+    }
+  }
+
+  private _getPositionStrategy(overlayRef: OverlayRef) {
+    return overlayRef.getConfig()
+      .positionStrategy as FlexibleConnectedPositionStrategy;
   }
 
-  private _addEnterEventListeners() {
-    // don't attach any event if the tooltip is not initialized
-    // WARN: touch events are not taken into account, add them if there's a necesity
-    if (
-      (!this.customTooltip && !this._withProjectedHTML) ||
-      this._viewInitialized ||
-      this._passiveListeners.length
-    )
-      return;
+  private _clearShowTimers() {
+    clearTimeout(this._showTimeout);
+    this._showTimeout = null;
+    this._stopHoverIntent();
+  }
 
-    if (this._doesPlatformSupportMouseEvents() && !this._triggerOnClick) {
-      this._passiveListeners.push([
-        'mouseenter',
-        () => {
-          this._addExitEventListeners();
-          this.show();
-        },
-      ]);
-    } else {
-      this._disableNativeGesturesIfNecessary();
+  private _clearHideTimeout() {
+    clearTimeout(this._hideTimeout);
+    this._hideTimeout = null;
+  }
 
-      this._passiveListeners.push([
-        'touchstart',
-        () => {
-          // Note that it's important that we don't `preventDefault` here,
-          // because it can prevent click events from firing on the element.
-          this._addExitEventListeners();
-          clearTimeout(this._touchstartTimeout);
-          // @ts-ignore
-          this._touchstartTimeout = setTimeout(
-            () => this.show(),
-            LONGPRESS_DELAY
-          );
-        },
-      ]);
-    }
-    this._addListeners(this._passiveListeners);
+  /** Cancels every pending show / hide timer */
+  private _clearPendingTimers() {
+    this._clearShowTimers();
+    this._clearHideTimeout();
+    this._stopSafeTriangle();
+    clearTimeout(this._touchstartTimeout);
+    clearTimeout(this._touchDismissTimeout);
   }
 
-  private _addExitEventListeners() {
-    // WARN: Touch events are not handled
-    if (this._pointerExitEventsInitialized) return;
+  /** Closes a tooltip opened by touch once the dismiss delay passed */
+  private _scheduleTouchDismiss() {
+    clearTimeout(this._touchDismissTimeout);
 
-    this._pointerExitEventsInitialized = true;
+    if (!this._isTooltipVisible || !this._touchDismissDelay) return;
 
-    if (this._doesPlatformSupportMouseEvents()) {
-      /**
-       * Does not add these events when trigger on click is enabled.
-       * Instead a close button will be used. Just imagine it,
-       * a tooltip enabled on click with a close button, how ridiculous it is.
-       * This is because of a dumb law he had to comply with, but what kind of a person
-       * with impaired vision would use this app with a screen reader ?
-       * I mean common, ridiculousness.
-       */
-      if (this._triggerOnClick) {
-        return;
-      }
+    this._touchDismissTimeout = setTimeout(
+      () => this.hide('timeout'),
+      this._touchDismissDelay
+    );
+  }
 
-      this._passiveListeners.push(
-        [
-          'mouseleave',
-          () => {
-            this.hide();
-          },
-        ],
-        [
-          'wheel',
-          (event) => {
-            this._wheelListener(event as WheelEvent);
-          },
-        ]
-      );
-    } else {
-      this._disableNativeGesturesIfNecessary();
-      const touchendListener = () => {
-        clearTimeout(this._touchstartTimeout);
-        this.hide();
-      };
+  /** Closes the tooltip on Escape while the focus is on the trigger element. */
+  private _triggerKeydownListener = (event: KeyboardEvent) => {
+    if (event.code !== 'Escape' || !this._isTooltipVisible) return;
 
-      this._passiveListeners.push(
-        ['touchend', touchendListener],
-        ['touchcancel', touchendListener]
-      );
-    }
+    event.preventDefault();
+    event.stopPropagation();
+    this._ngZone.run(() => this.hide('escape'));
+  };
 
-    this._addListeners(this._passiveListeners);
+  /** Points the trigger's `aria-describedby` to the tooltip element, keeps the existing ids. */
+  private _addAriaDescribedBy() {
+    addAriaDescribedBy(this._anchor, this._tooltipId);
+  }
+
+  private _removeAriaDescribedBy() {
+    removeAriaDescribedBy(this._anchor, this._tooltipId);
   }
 
-  private _addListeners(lstnrs: ListenerPattern[]) {
+  /** The listeners are bound to the host, TooltipContainerDirective delegates them */
+  protected _addListeners(lstnrs: ListenerPattern[]) {
     addListener(this.eRef.nativeElement, lstnrs);
   }
 
-  /** Listener for the `wheel` event on the element. */
+  protected _removeListeners(lstnrs: ListenerPattern[]) {
+    removeListener(this.eRef.nativeElement, lstnrs);
+  }
+
+  /**
+   * Listener for the `wheel` event on the element. Only a fallback for the scroll containers
+   * the ScrollDispatcher doesn't know about, the `cdkScrollable` ones are handled by the
+   * overlay's scroll strategy.
+   */
   private _wheelListener(event: WheelEvent) {
+    if (this._scrollableAncestors.length) return;
+
     const elementUnderPointer = this._document.elementFromPoint(
       event.clientX,
       event.clientY
     );
-    const element = this.eRef.nativeElement;
+    const element = this._anchor;
 
     // On non-touch devices we depend on the `mouseleave` event to close the tooltip, but it
     // won't fire if the user scrolls away using the wheel without moving their cursor. We
@@ -376,28 +2071,129 @@ export class TooltipDirective
       elementUnderPointer !== element &&
       !element.contains(elementUnderPointer)
     ) {
-      this.hide();
+      this.hide('pointerLeave');
     }
   }
 
   private _disableNativeGesturesIfNecessary() {
-    const style = this.eRef.nativeElement.style;
+    if (
+      !this._disableNativeGestures ||
+      this._doesPlatformSupportMouseEvents()
+    ) {
+      this._restoreNativeGestures();
+      return;
+    }
+
+    if (this._nativeGestureStyles) return;
+
+    const style: NativeGestureStyle = this.eRef.nativeElement.style;
+    const previous: Partial<Record<NativeGestureProperty, string>> = {};
+
+    getNativeGestureProperties().forEach((property) => {
+      previous[property] = style[property] || '';
+      style[property] = NATIVE_GESTURE_STYLES[property];
+    });
+    this._nativeGestureStyles = previous;
+  }
+
+  /** Puts back the element's own inline styles once the native gestures are on again */
+  private _restoreNativeGestures() {
+    const previous = this._nativeGestureStyles;
+
+    if (!previous) return;
+
+    const style: NativeGestureStyle = this.eRef.nativeElement.style;
+
+    getNativeGestureProperties().forEach((property) => {
+      style[property] = previous[property] || '';
+    });
+    this._nativeGestureStyles = null;
+  }
+
+  /** Drops the previous content, the new one is loaded on the next show if it's asynchronous */
+  private _resetContentCache() {
+    this._contentSubscription?.unsubscribe();
+    this._contentSubscription = null;
+    this._contentLoadedAt = null;
+
+    if (!this._content || typeof this._content === 'string') {
+      this._message = this._content || '';
+      this._contentState = 'ready';
+    } else {
+      this._message = '';
+      this._contentState = 'loading';
+    }
+  }
+
+  private _isContentCached() {
+    return (
+      this._contentLoadedAt !== null &&
+      Date.now() - this._contentLoadedAt < this._cacheTtl
+    );
+  }
+
+  /** Loads the asynchronous content unless it's already loading or cached */
+  private _loadContentIfNeeded() {
+    const content = this._content;
+
+    if (
+      !content ||
+      typeof content === 'string' ||
+      // still loading
+      this._contentSubscription?.closed === false ||
+      this._isContentCached()
+    )
+      return;
+
+    let source: string | Promise<string> | Observable<string>;
+
+    try {
+      source =
+        typeof content === 'function' ? content(this._anchor) : content;
+    } catch {
+      this._setContentState('error');
+      return;
+    }
+
+    const source$ = isObservable(source)
+      ? source
+      : typeof source === 'string'
+      ? of(source)
+      : from(source);
+
+    // the previous text stays visible while it's reloaded after the cache expired
+    if (!this._message) this._setContentState('loading');
+
+    // a source that completes without a message, e.g. a cancelled request, fails to load
+    this._contentSubscription = source$.pipe(take(1), throwIfEmpty()).subscribe({
+      next: (message) =>
+        this._ngZone.run(() => {
+          this._message = message;
+          this._contentLoadedAt = Date.now();
+          this._setContentState('ready');
+        }),
+      error: () => this._ngZone.run(() => this._setContentState('error')),
+    });
+  }
 
-    style.touchAction = 'none';
-    (style as any).webkitTapHighlightColor = 'transparent';
+  private _setContentState(state: TooltipContentState) {
+    this._contentState = state;
+    this._updateTooltipMessage();
   }
 
   /** Updates the tooltip message and repositions the overlay according to the new message length */
   private _updateTooltipMessage() {
     // Must wait for the message to be painted to the tooltip so that the overlay can properly
     // calculate the correct positioning based on the size of the text.
-    if (this._tipInstance && this._message) {
+    if (this._tipInstance && !this._controlError) {
       this._tipInstance.tooltip = this._message;
+      this._tipInstance.contentState = this._contentState;
+      this._tipInstance.markForCheck();
 
       this._ngZone.onMicrotaskEmpty
         .pipe(take(1), takeUntil(this._destroyed))
         .subscribe(() => {
-          if (this._tipInstance) this._overlayRef!.updatePosition();
+          if (this._tipInstance) this._overlayRef?.updatePosition();
         });
     }
   }
@@ -406,100 +2202,293 @@ export class TooltipDirective
    * Opens the tooltip using some event
    */
   show() {
+    this._clearPendingTimers();
+
+    if (this._disabled || !this._hasContent()) return;
+    // a valid control shows the other content, if there's any
+    if (!this._controlError && !this._hasOwnContent()) return;
     if (this._overlayRef?.hasAttached()) return;
+    if (this._onlyWhenTruncated && !this._isTruncated()) return;
+
     const overlayRef = this._addOverlay({
       // disables scrolling when the tooltip is enabled on click
-      backdropClass: this._triggerOnClick ? 'custom-tooltip-backdrop' : '',
-      hasBackdrop: this._triggerOnClick,
+      backdropClass: this._hasBackdrop ? 'custom-tooltip-backdrop' : '',
+      hasBackdrop: this._hasBackdrop,
     });
 
-    if (this.customTooltip) {
-      // @ts-ignore
-      this._withProjectedHTML = null;
+    // the elements of a TooltipContainerDirective might sit in different scroll containers
+    this._scrollableAncestors =
+      this._scrollDispatcher.getAncestorScrollContainers(this._anchor);
+    // the tooltip falls back to the element when it was opened without a pointer, e.g. on focus
+    this._getPositionStrategy(overlayRef)
+      .withScrollableContainers(this._scrollableAncestors)
+      .setOrigin(
+        this._followCursor && this._cursorPoint
+          ? this._cursorPoint
+          : this._anchor
+      );
+    // the anchor might have moved since the tooltip was open
+    if (this._tipPosition === 'auto') this._updatePosition(overlayRef);
+
+    if (this._usesElementText()) {
+      this._message = (this._anchor.textContent || '').trim();
+      this._contentState = 'ready';
+    }
 
+    // the validation error takes the place of the other content while the control is invalid
+    if (this._controlError || this.customTooltip || this._usesElementText()) {
       this._tipPortal =
         this._tipPortal || new ComponentPortal(TooltipComponent);
 
-      this._tipInstance = this._overlayRef.attach(this._tipPortal).instance;
-
-      this._tipInstance.tooltip = this.customTooltip;
-      this._tipInstance.width = this.customTooltipWidth;
-      this._tipInstance.borderColor = this.customTooltipBorderColor;
-      this._tipInstance.appliedTextClass = this.customTooltipBold
-        ? 'bold-text'
-        : 'simple-text';
-      this._tipInstance.textColor = this.customTooltipColor;
-      this._tipInstance.textSize = this.customTooltipTextSize;
-      this._tipInstance.shouldEnableCloseBtn = this._triggerOnClick;
-      this._tipInstance.closeBtnCb = () => this.hide();
+      this._tipInstance = overlayRef.attach(this._tipPortal).instance;
+
+      this._tipInstance.tooltip = this._controlError || this._message;
+      this._tipInstance.contentState = this._controlError
+        ? 'ready'
+        : this._contentState;
+      this._applyInputs(this._tipInstance);
       this._tipInstance.tipPosition = this._tipPosition;
+      this._tipInstance.arrowOffset = null;
+      this._tipInstance.tooltipId = this._tooltipId;
+
+      this._markAsShown();
 
-      this._isTooltipVisible = true;
+      if (!this._controlError) this._loadContentIfNeeded();
     } else if (this._withProjectedHTML) {
       // @ts-ignore
       this._tipInstance = null;
 
-      this._withProjectedHTML.width = this.customTooltipWidth;
-      this._withProjectedHTML.borderColor = this.customTooltipBorderColor;
-      this._withProjectedHTML.appliedTextClass = this.customTooltipBold
-        ? 'bold-text'
-        : 'simple-text';
-      this._withProjectedHTML.textColor = this.customTooltipColor;
-      this._withProjectedHTML.textSize = this.customTooltipTextSize;
-      this._withProjectedHTML.shouldEnableCloseBtn = this._triggerOnClick;
-      this._withProjectedHTML.closeBtnCb = () => this.hide();
+      this._applyInputs(this._withProjectedHTML);
       this._withProjectedHTML.tipPosition = this._tipPosition;
+      this._withProjectedHTML.arrowOffset = null;
+      this._withProjectedHTML.tooltipId = this._tooltipId;
+
+      this._attachTemplate(overlayRef, this._withProjectedHTML.template);
+    } else if (this._withTemplate) {
+      this._tipInstance = null;
 
-      this._templatePortal =
-        this._templatePortal ||
-        new TemplatePortal(
-          this._withProjectedHTML.template,
-          this.viewContainerRef
+      // a plain template has no role="tooltip" element of its own
+      overlayRef.overlayElement.setAttribute(
+        'role',
+        this._isPopover ? 'dialog' : 'tooltip'
+      );
+      overlayRef.overlayElement.setAttribute('id', this._tooltipId);
+      if (this._isPopover && this._popoverLabel) {
+        overlayRef.overlayElement.setAttribute(
+          'aria-label',
+          this._popoverLabel
         );
+      }
+
+      this._attachTemplate(overlayRef, this._withTemplate);
+    }
+  }
 
-      !this._overlayRef.hasAttached() &&
-        overlayRef.attach(this._templatePortal);
+  /** The overlay keeps the positions it was created with otherwise */
+  private _repositionOpenTooltip() {
+    if (!this._overlayRef) return;
 
-      this._ngZone.onMicrotaskEmpty
-        .pipe(take(1), takeUntil(this._destroyed))
-        .subscribe(() => {
-          this._overlayRef!.updatePosition();
-        });
+    this._updatePosition(this._overlayRef);
+    // the arrow follows through _applyTipPlacement
+    if (this._overlayRef.hasAttached()) this._overlayRef.updatePosition();
+  }
+
+  /** Copies the directive's inputs to the tooltip component */
+  private _applyInputs(tooltip: TooltipComponent) {
+    tooltip.width = this.customTooltipWidth;
+    tooltip.borderColor = this.customTooltipBorderColor;
+    // the validation errors come in the error theme, whatever the tooltip's theme is
+    tooltip.theme = this._controlError
+      ? this._defaults.errorTheme
+      : this._theme;
+    tooltip.appliedTextClass = this.customTooltipBold
+      ? 'bold-text'
+      : 'simple-text';
+    tooltip.textColor = this.customTooltipColor;
+    tooltip.textSize = this.customTooltipTextSize;
+    // the trigger's direction, the tooltip renders outside of the `dir` containers
+    tooltip.isRtl = this._isRtl();
+    tooltip.shouldEnableCloseBtn = this._triggerOnClick;
+    tooltip.closeBtnCb = () => this.hide('closeButton');
+    tooltip.role = this._isPopover ? 'dialog' : 'tooltip';
+    tooltip.ariaLabel = this._isPopover ? this._popoverLabel || null : null;
+  }
+
+  /** Pushes the changed inputs to the open tooltip, its size might have changed as well */
+  private _updateOpenTooltip() {
+    const tooltip = this._tipInstance || this._withProjectedHTML;
+
+    if (!tooltip || !this._isTooltipVisible) return;
+
+    this._applyInputs(tooltip);
+    tooltip.markForCheck();
+    this._embeddedViewRef?.detectChanges();
+    this._updatePositionOnStable();
+  }
+
+  /** Renders the template with the current context into the overlay */
+  private _attachTemplate(
+    overlayRef: OverlayRef,
+    template: TemplateRef<TooltipTemplateContext>
+  ) {
+    this._templatePortal =
+      this._templatePortal ||
+      new TemplatePortal(template, this.viewContainerRef);
+    // the context might have changed while the tooltip was closed
+    this._templatePortal.context = { $implicit: this._templateContext };
+
+    if (!overlayRef.hasAttached())
+      this._embeddedViewRef = overlayRef.attach(this._templatePortal);
 
-      this._isTooltipVisible = true;
+    this._updatePositionOnStable();
+    this._markAsShown();
+  }
+
+  private _markAsShown() {
+    if (this._isPopover) {
+      this._anchor.setAttribute('aria-expanded', 'true');
+      this._anchor.setAttribute('aria-controls', this._tooltipId);
+      this._trapFocus();
+    } else {
+      this._addAriaDescribedBy();
     }
+
+    this._isTooltipVisible = true;
+    this._watchAnchorSize();
+    this._manager.notifyShown(this);
+    this.customTooltipShown.emit();
+  }
+
+  /** Keeps the open tooltip next to the element while its size changes, e.g. of a growing textarea */
+  private _watchAnchorSize() {
+    this._anchorResizeSubscription?.unsubscribe();
+    this._anchorResizeSubscription = this._resizeObserver
+      .observe(this._anchor)
+      .subscribe(() => {
+        // the element got large enough to show its whole content
+        if (this._onlyWhenTruncated && !this._isTruncated()) {
+          this._ngZone.run(() => this.hide());
+        } else {
+          this._repositionOpenTooltip();
+        }
+      });
+  }
+
+  /** Repositions the overlay once the content is painted & its size is known */
+  private _updatePositionOnStable() {
+    this._ngZone.onMicrotaskEmpty
+      .pipe(take(1), takeUntil(this._destroyed))
+      .subscribe(() => {
+        // `auto` measures the rendered tooltip
+        if (this._tipPosition === 'auto') this._repositionOpenTooltip();
+        else this._overlayRef?.updatePosition();
+      });
   }
 
   /**
    * hides the tooltip
+   * @param reason - reported by `customTooltipHidden`, `programmatic` by default.
    */
-  hide() {
+  hide(reason: TooltipHideReason = 'programmatic') {
+    const wasVisible = this._isTooltipVisible;
+    // checked before the focused element is removed along with the overlay
+    const shouldRestoreFocus = wasVisible && this._shouldRestoreFocus();
+
+    this._clearPendingTimers();
     this._isTooltipVisible = false;
     this._tipInstance = null;
+    this._embeddedViewRef = null;
+    this._stopTrackingCursor();
+    this._anchorResizeSubscription?.unsubscribe();
+    this._anchorResizeSubscription = null;
+    this._focusTrap?.destroy();
+    this._focusTrap = null;
     this._overlayRef?.detach();
+    this._overlayRef?.overlayElement.removeAttribute('role');
+    this._overlayRef?.overlayElement.removeAttribute('id');
+    this._overlayRef?.overlayElement.removeAttribute('aria-label');
+    this._removeAriaDescribedBy();
+
+    if (this._isPopover) {
+      this._anchor.setAttribute('aria-expanded', 'false');
+      this._anchor.removeAttribute('aria-controls');
+    }
+    if (shouldRestoreFocus) this._anchor.focus();
+    this._manager.notifyHidden(this);
+
+    if (wasVisible) this.customTooltipHidden.emit(reason);
+  }
+
+  /** Moves the focus into the popover, on its first tabbable element or on the dialog itself */
+  private _trapFocus() {
+    const pane = this._overlayRef?.overlayElement;
+
+    if (!pane) return;
+
+    this._focusTrap?.destroy();
+    this._focusTrap = this._focusTrapFactory.create(pane);
+    this._focusTrap.focusInitialElementWhenReady().then((focused) => {
+      if (focused || !this._isTooltipVisible) return;
+
+      const dialog =
+        pane.querySelector<HTMLElement>('[role="dialog"]') || pane;
+
+      dialog.setAttribute('tabindex', '-1');
+      dialog.focus();
+    });
+  }
+
+  /**
+   * Whether the focus goes back to the element once the popover closes. It doesn't when
+   * the user already moved it somewhere else, e.g. by clicking another input.
+   */
+  private _shouldRestoreFocus() {
+    if (!this._isPopover || !this._overlayRef) return false;
+
+    const focused = this._document.activeElement;
+
+    return (
+      !focused ||
+      focused === this._document.body ||
+      this._overlayRef.overlayElement.contains(focused)
+    );
+  }
+
+  /** The backdrop is set once the overlay is created, the next show creates it again */
+  private _disposeOverlay() {
+    if (!this._overlayRef) return;
+
+    this.hide();
+    removeListener(this._overlayRef.overlayElement, this._overlayListeners);
+    this._overlayListeners.length = 0;
+    this._overlayRef.dispose();
+    this._overlayRef = null;
   }
 
   /**
    * toggles the state of the tooltip, can be used to explicitly toggle the tooltip.
    */
   toggle() {
+    // a pending timer would otherwise override the explicit toggle
+    this._clearPendingTimers();
     this._isTooltipVisible ? this.hide() : this.show();
   }
 
   override ngOnDestroy(): void {
     super.ngOnDestroy();
+    // also clears the pending show / hide timers
     this.hide();
+    this._manager.unregister(this);
     this._withProjectedHTML = null;
-
-    const nativeElement = this.eRef.nativeElement;
-
-    if (this._overlayRef) {
-      this._overlayRef.dispose();
-    }
+    this._withTemplate = null;
+    this._contentSubscription?.unsubscribe();
+    this._controlStatusSubscription?.unsubscribe();
+    this._hostDisabledObserver?.disconnect();
+    this._restoreNativeGestures();
+    this._disposeOverlay();
 
     // Clean up the event listeners set in the constructor
-    removeListener(nativeElement, this._passiveListeners);
-    this._passiveListeners.length = 0;
+    this._detachEvents();
   }
 }
 
@@ -513,39 +2502,95 @@ export class TooltipDirective
 export class TooltipComponent {
   @Input()
   tooltip!: string;
-  @Input() appliedTextClass = 'simple-text';
-  @Input() textColor = 'inherit';
-  @Input() borderColor = '#008071';
-  @Input() width = 150;
-  @Input() textSize = '12px';
+  /** Shows a loading or an error message instead of the tooltip text */
+  @Input() contentState: TooltipContentState = 'ready';
+  @Input() loadingText = 'Loading...';
+  @Input() errorText = 'The tooltip could not be loaded';
+  @Input() appliedTextClass: string;
+  @Input() textColor: string;
+  @Input() borderColor: string;
+  @Input() width: number;
+  @Input() textSize: string;
   @Input() embeddedBodyId: any;
   @Input()
+  set theme(val: string) {
+    this._theme = val;
+    this.themeStyles = this._themeRegistry.getStyles(val);
+  }
+  get theme() {
+    return this._theme;
+  }
+  /** The CSS custom properties of a registered theme, null for the built-in ones */
+  themeStyles: Record<string, string> | null = null;
+  private _theme!: string;
+  /** The id of the `role="tooltip"` element, referenced by the trigger's `aria-describedby` */
+  @Input() tooltipId!: string;
+  /** `dialog` in the popover mode of TooltipDirective */
+  @Input() role: 'tooltip' | 'dialog' = 'tooltip';
+  /** The accessible name of the popover's dialog */
+  @Input() ariaLabel: string | null = null;
+  @Input()
   tipPosition!: OverlayTipPosition;
+  /** Whether the trigger's direction is right to left, the logical positions flip along */
+  @Input() isRtl = false;
+  /** Where the arrow points at along the tip's edge (in px), centred if null */
+  @Input() arrowOffset: number | null = null;
 
   @ViewChild('templ', { static: true })
-  template!: TemplateRef<HTMLDivElement>;
+  template!: TemplateRef<TooltipTemplateContext>;
+
+  /** An optional template rendered with the context of the trigger, see TooltipDirective */
+  @ContentChild(TemplateRef)
+  contentTemplate?: TemplateRef<TooltipTemplateContext>;
 
   shouldEnableCloseBtn = false;
   closeBtnCb!: () => void;
 
-  constructor(private _mir: MatIconRegistry, private _ds: DomSanitizer) {
+  constructor(
+    private _mir: MatIconRegistry,
+    private _ds: DomSanitizer,
+    private _cdRef: ChangeDetectorRef,
+    private _themeRegistry: TooltipThemeRegistry,
+    @Inject(CUSTOM_TOOLTIP_DEFAULT_OPTIONS)
+    defaultOptions: Partial<CustomTooltipDefaultOptions>
+  ) {
     this._mir.addSvgIcon('close', this._ds.bypassSecurityTrustResourceUrl('assets/img/cross.svg'));
+
+    const defaults = { ...BUILT_IN_TOOLTIP_DEFAULTS, ...defaultOptions };
+    this.appliedTextClass = defaults.bold ? 'bold-text' : 'simple-text';
+    this.theme = defaults.theme;
+    this.textColor = defaults.color;
+    this.borderColor = defaults.borderColor;
+    this.width = defaults.width;
+    this.textSize = defaults.textSize;
+  }
+
+  /** The inputs are set from TooltipDirective, so the view has to be marked explicitly */
+  markForCheck() {
+    this._cdRef.markForCheck();
   }
 
-  parentBorder() {
-    return `0.5px solid ${this.borderColor}`;
+  /** The registered themes fall back to `light` for the custom properties they omit */
+  themeClass() {
+    return isBuiltInTooltipTheme(this.theme)
+      ? `custom-tooltip-theme-${this.theme}`
+      : 'custom-tooltip-theme-light';
   }
 
-  tipBorder() {
-    return `border-left: 0.5px solid ${this.borderColor};
-            border-top: 0.5px solid ${this.borderColor}`;
+  arrowOffsetStyle() {
+    return this.arrowOffset === null ? null : `${this.arrowOffset}px`;
   }
 
   tipClass() {
-    if (this.tipPosition.match(/(left|before)/)) return 'tip tip-left';
-    else if (this.tipPosition.match(/(right|after)/)) return 'tip tip-right';
-    else if (this.tipPosition === 'above') return 'tip tip-above';
-    else if (this.tipPosition === 'below') return 'tip tip-below';
+    // the alignment, e.g. `-start` of `above-start`, is left to the arrow offset
+    const side = getPhysicalTipSide(
+      this.tipPosition ? getTipSide(this.tipPosition) : 'below',
+      this.isRtl
+    );
+
+    if (side === 'left') return 'tip tip-left';
+    else if (side === 'right') return 'tip tip-right';
+    else if (side === 'above') return 'tip tip-above';
     else return 'tip tip-below';
   }
 
@@ -554,6 +2599,219 @@ export class TooltipComponent {
   // }
 }
 
+/** Marks the descendants of a customTooltipContainer that have a tooltip, holds its text */
+const TOOLTIP_CONTENT_ATTRIBUTE = 'data-custom-tooltip';
+
+/** The inputs an element overrides through `data-`, e.g. `data-custom-tooltip-skid` */
+const DELEGATED_INPUTS = [
+  'customTooltipPosition',
+  'customTooltipFallbackPositions',
+  'customTooltipAutoAxis',
+  'customTooltipDistance',
+  'customTooltipSkid',
+  'customTooltipTheme',
+  'customTooltipColor',
+  'customTooltipBorderColor',
+  'customTooltipBold',
+  'customTooltipWidth',
+  'customTooltipTextSize',
+  'customTooltipShowDelay',
+  'customTooltipHideDelay',
+  'customTooltipLongPressDelay',
+  'customTooltipTouchDismissDelay',
+  'customTooltipHoverIntent',
+  'customTooltipInteractive',
+  'customTooltipFollowCursor',
+  'customTooltipOnlyWhenTruncated',
+] as const;
+
+type DelegatedInput = typeof DELEGATED_INPUTS[number];
+
+/** The container's own inputs, they apply to the elements that don't override them */
+type ContainerInputs = Partial<
+  Record<DelegatedInput | 'customTooltip' | 'customTooltipContext', any>
+>;
+
+/** The bubbling events the container listens to in place of the element's own ones */
+const DELEGATED_EVENTS: Readonly<Record<string, string>> = {
+  mouseenter: 'mouseover',
+  mouseleave: 'mouseout',
+  focus: 'focusin',
+  blur: 'focusout',
+};
+
+/** The events that move the tooltip to the element they happened on */
+const ENTER_EVENTS = ['mouseenter', 'focus', 'click', 'touchstart'];
+
+/**
+ * Delegated mode of the tooltip for long lists & grids. The container owns one overlay &
+ * one TooltipComponent shared by every descendant with a `data-custom-tooltip` attribute,
+ * the pointer, focus & touch events are listened to on the container only.
+ *
+ * It's a TooltipDirective whose anchor moves to the element the pointer or the focus entered,
+ * so it takes the same inputs: the container's ones apply to every element, the `data-` version
+ * of DELEGATED_INPUTS overrides them per element, e.g. `data-custom-tooltip-position`.
+ * The attribute's value is the element's text, an empty one falls back to the container's
+ * content, e.g. a `customTooltipPivot` template rendered with the element as `let-element`
+ * or a `customTooltip` loader called with the element.
+ *
+ * #### USAGE
+ * ```html
+ * <table customTooltipContainer customTooltipHoverIntent>
+ *   <tr *ngFor="let row of rows">
+ *     <td [attr.data-custom-tooltip]="row.description" data-custom-tooltip-position="right">
+ *       {{ row.name }}
+ *     </td>
+ *   </tr>
+ * </table>
+ *
+ * <ul customTooltipContainer [customTooltip]="loadUserDetails">
+ *   <li *ngFor="let user of users" data-custom-tooltip [attr.data-user-id]="user.id">
+ *     {{ user.name }}
+ *   </li>
+ * </ul>
+ * ```
+ */
+@Directive({
+  selector: '[customTooltipContainer]',
+  exportAs: 'customTooltipContainer',
+})
+export class TooltipContainerDirective
+  extends TooltipDirective
+  implements OnChanges
+{
+  /** The element the tooltip is open or about to open for */
+  private _activeElement: HTMLElement | null = null;
+  private _containerInputs: ContainerInputs = {};
+  /** The element's listeners wrapped into the container's ones, by the original listener */
+  private readonly _delegatedListeners = new Map<
+    EventListenerOrEventListenerObject,
+    ListenerPattern
+  >();
+
+  protected override get _anchor(): HTMLElement {
+    return this._activeElement || this.eRef.nativeElement;
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    Object.keys(changes).forEach((input) => {
+      this._containerInputs[input as keyof ContainerInputs] =
+        changes[input].currentValue;
+    });
+  }
+
+  /** Re-opens the tooltip of the last active element, e.g. from TooltipManager */
+  override show() {
+    if (
+      this._activeElement &&
+      this.eRef.nativeElement.contains(this._activeElement)
+    ) {
+      super.show();
+    }
+  }
+
+  /** The listeners wait for an element with a tooltip, its content is checked once it's shown */
+  protected override _hasContent() {
+    return !this._activeElement || super._hasContent();
+  }
+
+  /** The app styles the elements, the whole container isn't clickable */
+  protected override _enablePointer() {}
+
+  /** The listeners re-enter the zone only once they concern an element with a tooltip */
+  protected override _addListeners(lstnrs: ListenerPattern[]) {
+    this._ngZone.runOutsideAngular(() =>
+      addListener(
+        this.eRef.nativeElement,
+        lstnrs.map((lstnr) => this._delegate(lstnr))
+      )
+    );
+  }
+
+  protected override _removeListeners(lstnrs: ListenerPattern[]) {
+    removeListener(
+      this.eRef.nativeElement,
+      lstnrs.map((lstnr) => this._delegate(lstnr))
+    );
+    lstnrs.forEach(([, listener]) => this._delegatedListeners.delete(listener));
+  }
+
+  /** Binds the element's listener to the bubbling version of its event on the container */
+  private _delegate([event, listener]: ListenerPattern): ListenerPattern {
+    let delegated = this._delegatedListeners.get(listener);
+
+    if (!delegated) {
+      delegated = [
+        DELEGATED_EVENTS[event] || event,
+        (e) => {
+          if (!this._isElementEvent(event, e)) return;
+
+          this._ngZone.run(() =>
+            typeof listener === 'function'
+              ? listener(e)
+              : listener.handleEvent(e)
+          );
+        },
+      ];
+      this._delegatedListeners.set(listener, delegated);
+    }
+
+    return delegated;
+  }
+
+  /**
+   * Whether the event is the element's own `event`, e.g. a `mouseover` coming from outside
+   * the element is its `mouseenter`. The tooltip moves to the element the event entered.
+   */
+  private _isElementEvent(event: string, e: Event) {
+    const element = this._getTooltipElement(e.target);
+    const relatedTarget = (e as MouseEvent | FocusEvent)
+      .relatedTarget as Node | null;
+
+    if (!element) return false;
+    // moving between the element's children
+    if (event in DELEGATED_EVENTS && element.contains(relatedTarget))
+      return false;
+    if (!ENTER_EVENTS.includes(event)) return element === this._activeElement;
+
+    if (element !== this._activeElement) {
+      this._ngZone.run(() => this._activate(element));
+    }
+
+    return true;
+  }
+
+  /** The closest element with a tooltip, null if the target isn't inside one */
+  private _getTooltipElement(target: EventTarget | null) {
+    const element = (target as Element | null)?.closest?.<HTMLElement>(
+      `[${TOOLTIP_CONTENT_ATTRIBUTE}]`
+    );
+
+    return element && this.eRef.nativeElement.contains(element)
+      ? element
+      : null;
+  }
+
+  /** Moves the tooltip to the element, its `data-` attributes override the container's inputs */
+  private _activate(element: HTMLElement) {
+    const inputs = this as Record<DelegatedInput, unknown>;
+
+    // the previous element's tooltip closes right away, whatever its hide delay
+    this.hide();
+    this._activeElement = element;
+
+    DELEGATED_INPUTS.forEach((input) => {
+      inputs[input] = element.dataset[input] ?? this._containerInputs[input];
+    });
+
+    this.customTooltipContext =
+      this._containerInputs.customTooltipContext ?? element;
+    this.customTooltip =
+      element.getAttribute(TOOLTIP_CONTENT_ATTRIBUTE) ||
+      this._containerInputs.customTooltip;
+  }
+}
+
 @NgModule({
   imports: [
     CommonModule,
@@ -563,7 +2821,28 @@ export class TooltipComponent {
     MatButtonModule,
     MatIconModule,
   ],
-  declarations: [TooltipComponent, TooltipDirective],
-  exports: [TooltipDirective, TooltipComponent],
+  declarations: [
+    TooltipComponent,
+    TooltipDirective,
+    TooltipContainerDirective,
+  ],
+  exports: [TooltipDirective, TooltipComponent, TooltipContainerDirective],
 })
-export class TooltipModule {}
+export class TooltipModule {
+  /**
+   * Sets the app wide tooltip defaults, see CUSTOM_TOOLTIP_DEFAULT_OPTIONS.
+   *
+   * #### USAGE
+   * ```typescript
+   * imports: [TooltipModule.forRoot({ position: 'above', trigger: 'click' })]
+   * ```
+   */
+  static forRoot(
+    options: Partial<CustomTooltipDefaultOptions>
+  ): ModuleWithProviders<TooltipModule> {
+    return {
+      ngModule: TooltipModule,
+      providers: [provideCustomTooltipDefaults(options)],
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { Dir } from '@angular/cdk/bidi';
+import {
+  ConnectionPositionPair,
+  FlexibleConnectedPositionStrategy,
+  Overlay,
+  OverlayModule,
+  OverlayRef,
+} from '@angular/cdk/overlay';
+import { TestBed } from '@angular/core/testing';
+import {
+  AppliedTipPosition,
+  getPhysicalTipSide,
+  getTipSide,
+  OverlayPositionBase,
+  OverlayTipPosition,
+  OVERLAY_TIP_POSITIONS,
+} from './overlay-position-base.directive';
+
+/** Places the overlay the way the tooltips & the walkthrough steps do */
+class TestPositionBase extends OverlayPositionBase {
+  place(overlayRef: OverlayRef, position: OverlayTipPosition) {
+    this._tipPosition = position;
+    this._updatePosition(overlayRef);
+
+    const [main, fallback] = (
+      overlayRef.getConfig().positionStrategy as FlexibleConnectedPositionStrategy
+    ).positions;
+
+    return { main, fallback };
+  }
+}
+
+/** The side of the anchor a pair puts the overlay on, `start` is the right edge in RTL */
+function getRtlPairSide({
+  originX,
+  originY,
+  overlayX,
+  overlayY,
+}: ConnectionPositionPair): AppliedTipPosition {
+  if (originY === 'top' && overlayY === 'bottom') return 'above';
+  if (originY === 'bottom' && overlayY === 'top') return 'below';
+
+  return originX === 'start' && overlayX === 'end' ? 'right' : 'left';
+}
+
+const OPPOSITE_SIDES: Record<AppliedTipPosition, AppliedTipPosition> = {
+  left: 'right',
+  right: 'left',
+  above: 'below',
+  below: 'above',
+};
+
+describe('OverlayPositionBase in RTL', () => {
+  let base: TestPositionBase;
+  let overlayRef: OverlayRef;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ imports: [OverlayModule] });
+
+    const overlay = TestBed.inject(Overlay);
+    const dir = new Dir();
+
+    dir.dir = 'rtl';
+    base = new TestPositionBase(dir);
+    overlayRef = overlay.create({
+      positionStrategy: overlay
+        .position()
+        .flexibleConnectedTo(document.createElement('div')),
+    });
+  });
+
+  afterEach(() => overlayRef.dispose());
+
+  it('maps the logical sides to the physical ones', () => {
+    expect(getPhysicalTipSide('before', true)).toBe('right');
+    expect(getPhysicalTipSide('after', true)).toBe('left');
+    expect(getPhysicalTipSide('left', true)).toBe('left');
+    expect(getPhysicalTipSide('right', true)).toBe('right');
+    expect(getPhysicalTipSide('above', true)).toBe('above');
+    expect(getPhysicalTipSide('below', true)).toBe('below');
+  });
+
+  it('sets the direction of the overlay', () => {
+    base.place(overlayRef, 'before');
+
+    expect(overlayRef.getDirection()).toBe('rtl');
+  });
+
+  OVERLAY_TIP_POSITIONS.forEach((position) => {
+    // `auto` can't measure the detached anchor, it tries `below` first
+    const side = getPhysicalTipSide(getTipSide(position), true);
+    const isVertical = side === 'above' || side === 'below';
+
+    it(`places \`${position}\` on the ${side} side`, () => {
+      const { main } = base.place(overlayRef, position);
+
+      expect(getRtlPairSide(main)).toBe(side);
+    });
+
+    it(`falls back from \`${position}\` to the ${OPPOSITE_SIDES[side]} side`, () => {
+      const { main, fallback } = base.place(overlayRef, position);
+
+      expect(getRtlPairSide(fallback)).toBe(OPPOSITE_SIDES[side]);
+      // the inversion keeps the alignment, e.g. `above-start` falls back to `below-start`
+      if (isVertical) {
+        expect(fallback.originX).toBe(main.originX);
+        expect(fallback.overlayX).toBe(main.overlayX);
+      } else {
+        expect(fallback.originY).toBe(main.originY);
+        expect(fallback.overlayY).toBe(main.overlayY);
+      }
+    });
+  });
+});
@@ -7,12 +7,46 @@ import {
   OverlayConnectionPosition,
   HorizontalConnectionPos,
   VerticalConnectionPos,
+  ConnectionPositionPair,
 } from '@angular/cdk/overlay';
 import { Directive, OnDestroy } from '@angular/core';
-import { Subject } from 'rxjs';
+import { Observable, Subject } from 'rxjs';
+import { map, takeUntil } from 'rxjs/operators';
 import { environment } from 'src/environments/environment';
 
-export type OverlayTipPosition =
+/**
+ * Where the overlay is placed around its anchor. The side may be followed by the overlay's
+ * alignment along that side, it's centred by default:
+ * - `above` & `below` take `-start` or `-end`, e.g. `above-start` lines up their start edges.
+ * - `left`, `right`, `before` & `after` take `-top` or `-bottom`, e.g. `after-top` lines up their top edges.
+ * - `auto` picks the side with the most room, see rankTipSides.
+ */
+export const OVERLAY_TIP_POSITIONS = [
+  'auto',
+  'left',
+  'right',
+  'above',
+  'below',
+  'before',
+  'after',
+  'above-start',
+  'above-end',
+  'below-start',
+  'below-end',
+  'left-top',
+  'left-bottom',
+  'right-top',
+  'right-bottom',
+  'before-top',
+  'before-bottom',
+  'after-top',
+  'after-bottom',
+] as const;
+
+export type OverlayTipPosition = typeof OVERLAY_TIP_POSITIONS[number];
+
+/** The side of the anchor a position places the overlay on */
+export type OverlayTipSide =
   | 'left'
   | 'right'
   | 'above'
@@ -20,27 +54,178 @@ export type OverlayTipPosition =
   | 'before'
   | 'after';
 
+/** The side of the anchor the overlay was actually placed on, after a possible fallback */
+export type AppliedTipPosition = 'left' | 'right' | 'above' | 'below';
+
+/** The axis the `auto` position tries first, `vertical` places the overlay above or below */
+export type OverlayTipAxis = 'vertical' | 'horizontal';
+
+/** What the `auto` position measures in order to pick a side */
+export interface TipSpaceMeasurement {
+  anchor: AnchorRect;
+  /** The size of the overlay, null while it isn't rendered */
+  panel: Readonly<{ width: number; height: number }> | null;
+  viewport: Readonly<{ width: number; height: number }>;
+  primaryAxis: OverlayTipAxis;
+  /** A tie between `left` & `right` goes to the side the text flows to */
+  isRtl: boolean;
+  /** Min distance in px between the overlay & the viewport edges */
+  margin?: number;
+  /** Kept first as long as the overlay fits there */
+  preferred?: AppliedTipPosition;
+}
+
+export interface TipPlacement {
+  position: AppliedTipPosition;
+  /**
+   * Distance in px from the start of the tip's edge to the anchor's centre,
+   * so that the arrow keeps pointing at the anchor. Null if there is no tip container.
+   */
+  arrowOffset: number | null;
+}
+
+/** The box the overlay is anchored to */
+export type AnchorRect = Readonly<
+  Record<'left' | 'top' | 'width' | 'height', number>
+>;
+
+/** Min distance in px between the arrow & the corners of the tip container */
+const ARROW_EDGE_PADDING = 16;
+
 function throwInvalidTutorialTipPosition() {
   return new Error(
     `The provided tutorial tip position is invalid. 
             Set either tipPosition to: 
-            'left' | 'right' | 'above' | 'below' | 'before' | 'after'`
+            'left' | 'right' | 'above' | 'below' | 'before' | 'after' | 'auto',
+            optionally aligned: 'above-start' | 'below-end' | 'after-top' | 'left-bottom' | ...`
   );
 }
 
 /**
- * Creates an overlay so that a tutorial tip could be attached.
- * Has the basic functionality for the overlay positioning.
+ * Returns the side of a position, e.g. `above` for `above-start`.
+ * `auto` counts as `below` until the overlay is placed & the applied side is known.
  */
-@Directive()
-export class OverlayPositionBaseDirective implements OnDestroy {
+export function getTipSide(position: OverlayTipPosition): OverlayTipSide {
+  if (position === 'auto') return 'below';
+
+  return position.split('-')[0] as OverlayTipSide;
+}
+
+/**
+ * Reads a fallback chain, either a list or a comma separated string.
+ * @param val - e.g. `'below, above, after'`.
+ */
+export function coerceTipPositions(
+  val: readonly OverlayTipPosition[] | string | null | undefined
+): OverlayTipPosition[] {
+  if (!val) return [];
+
+  const positions = typeof val === 'string' ? val.split(',') : val;
+
+  return positions
+    .map((position) => position.trim())
+    .filter((position) => !!position) as OverlayTipPosition[];
+}
+
+/**
+ * Orders the sides of the anchor, the best one first: the sides the overlay fits on come first,
+ * the primary axis before the other one & the side with the most room first along an axis.
+ * The rest follow by how much room they lack.
+ * Shared by the tooltips & the tour steps so that they flip the same way.
+ */
+export function rankTipSides({
+  anchor,
+  panel,
+  viewport,
+  primaryAxis,
+  isRtl,
+  margin = 0,
+  preferred,
+}: TipSpaceMeasurement): AppliedTipPosition[] {
+  const room: Record<AppliedTipPosition, number> = {
+    above: anchor.top - margin,
+    below: viewport.height - anchor.top - anchor.height - margin,
+    left: anchor.left - margin,
+    right: viewport.width - anchor.left - anchor.width - margin,
+  };
+  const spare = (side: AppliedTipPosition) => {
+    const isVertical = side === 'above' || side === 'below';
+    const needed = !panel ? 0 : isVertical ? panel.height : panel.width;
+    return room[side] - needed;
+  };
+  const byRoom = (a: AppliedTipPosition, b: AppliedTipPosition) =>
+    room[b] - room[a];
+  // the sort is stable, so a tie keeps `below` & the reading direction first
+  const vertical: AppliedTipPosition[] = ['below', 'above'];
+  const horizontal: AppliedTipPosition[] = isRtl
+    ? ['left', 'right']
+    : ['right', 'left'];
+  const sides =
+    primaryAxis === 'vertical'
+      ? [...vertical.sort(byRoom), ...horizontal.sort(byRoom)]
+      : [...horizontal.sort(byRoom), ...vertical.sort(byRoom)];
+  const ranked = [
+    ...sides.filter((side) => spare(side) >= 0),
+    ...sides
+      .filter((side) => spare(side) < 0)
+      .sort((a, b) => spare(b) - spare(a)),
+  ];
+
+  return preferred && spare(preferred) >= 0
+    ? [preferred, ...ranked.filter((side) => side !== preferred)]
+    : ranked;
+}
+
+/** The physical side of a side, e.g. `left` for `before` in LTR */
+export function getPhysicalTipSide(
+  side: OverlayTipSide,
+  isRtl: boolean
+): AppliedTipPosition {
+  if (side === 'before') return isRtl ? 'right' : 'left';
+  if (side === 'after') return isRtl ? 'left' : 'right';
+
+  return side;
+}
+
+/** The alignment of a position along its side, `center` if it has none */
+function getTipAlignment(position: OverlayTipPosition) {
+  return (position.split('-')[1] || 'center') as
+    | 'center'
+    | 'start'
+    | 'end'
+    | 'top'
+    | 'bottom';
+}
+
+/**
+ * The positioning of an overlay around its anchor, shared by the directives below &
+ * the plain classes that place an overlay, e.g. VirtualTooltipRef.
+ * Call _dispose() once the overlay is gone.
+ */
+export class OverlayPositionBase {
   protected _destroyed = new Subject();
-  protected _overlayRef!: OverlayRef;
+  protected _overlayRef: OverlayRef | null = null;
   protected _viewportMargin = 8;
 
   /** The hand holder's position, defaults to `below` so bear that in mind */
   protected _tipPosition: OverlayTipPosition = 'below';
-  protected _offset = 80;
+  /**
+   * The positions tried in order when the preferred one doesn't fit,
+   * the inverted preferred position (e.g. `'below' -> 'above'`) if empty.
+   */
+  protected _fallbackPositions: OverlayTipPosition[] = [];
+  /** The gap in px between the anchor & the tip of the arrow, null keeps the styled gap */
+  protected _distance: number | null = null;
+  /** Shifts the overlay in px along the anchor's side, towards the end or the bottom */
+  protected _skid = 0;
+  /** How far in px the arrow sticks out of the overlay towards the anchor */
+  protected _arrowSize = 0;
+  /** The gap in px the overlay's styles already keep from the anchor, e.g. its margin */
+  protected _styledGap = 0;
+  /** The axis the `auto` position tries first */
+  protected _autoPrimaryAxis: OverlayTipAxis = 'vertical';
+  /** Measured by the `auto` position instead of the overlay while it's empty */
+  protected _estimatedPanelSize: TipSpaceMeasurement['panel'] = null;
 
   constructor(private _dir: Directionality) {}
 
@@ -48,56 +233,235 @@ export class OverlayPositionBaseDirective implements OnDestroy {
   protected _updatePosition(overlayRef: OverlayRef) {
     const position = overlayRef.getConfig()
       .positionStrategy as FlexibleConnectedPositionStrategy;
-    const origin = this._getOrigin();
-    const overlay = this._getOverlayPosition();
+    // the other sides of `auto` are its fallbacks, ranked by their room
+    const [preferred, ...ranked]: OverlayTipPosition[] =
+      this._tipPosition === 'auto'
+        ? this._rankAutoSides(overlayRef)
+        : [this._tipPosition];
+    const origin = this._getOrigin(preferred);
+    const overlay = this._getOverlayPosition(preferred);
+    const fallbackPositions = this._fallbackPositions.filter(
+      (fallback) => fallback !== 'auto'
+    );
+    const fallbacks: ConnectedPosition[] = (
+      fallbackPositions.length ? fallbackPositions : ranked
+    ).map((fallback) => ({
+      ...this._getOrigin(fallback).main,
+      ...this._getOverlayPosition(fallback).main,
+    }));
+
+    if (!fallbacks.length) {
+      fallbacks.push({ ...origin.fallback, ...overlay.fallback });
+    }
+
+    // the CDK keeps the direction the overlay was created with otherwise
+    if (this._dir) overlayRef.setDirection(this._dir.value);
+
+    position.withPositions(
+      [{ ...origin.main, ...overlay.main }, ...fallbacks].map((pair) =>
+        this._addOffset(pair)
+      )
+    );
+  }
+
+  /** The box of the anchor measured by the `auto` position, null if it's unknown */
+  protected _getAnchorRect(): AnchorRect | null {
+    return null;
+  }
+
+  /** Whether the layout is right to left */
+  protected _isRtl() {
+    return !!this._dir && this._dir.value === 'rtl';
+  }
+
+  /** Measures the anchor, the overlay & the viewport for the `auto` position */
+  private _rankAutoSides(overlayRef: OverlayRef): AppliedTipPosition[] {
+    const anchor = this._getAnchorRect();
+    const pane = overlayRef.overlayElement;
+    const { documentElement } = pane.ownerDocument;
+    const { width, height } = pane.getBoundingClientRect();
+
+    // nothing to measure, the primary axis decides
+    if (!anchor) {
+      const sides: OverlayTipSide[] =
+        this._autoPrimaryAxis === 'vertical'
+          ? ['below', 'above']
+          : ['after', 'before'];
+
+      return sides.map((side) => getPhysicalTipSide(side, this._isRtl()));
+    }
+
+    return rankTipSides({
+      anchor,
+      // the pane is empty until the content is attached & rendered
+      panel: width && height ? { width, height } : this._estimatedPanelSize,
+      viewport: {
+        width: documentElement.clientWidth,
+        height: documentElement.clientHeight,
+      },
+      primaryAxis: this._autoPrimaryAxis,
+      isRtl: this._isRtl(),
+      // the overlay is measured with its styled gap, but not with the offset
+      margin: this._viewportMargin + this._getDistanceOffset(),
+    });
+  }
+
+  /**
+   * Emits the placement the CDK actually applied whenever the overlay is (re)positioned,
+   * which is the inverted fallback when the preferred position doesn't fit.
+   * Note that it might emit outside of the NgZone.
+   * @param overlayRef - the overlay to watch.
+   * @param getAnchorRect - returns the current box of the anchor.
+   * @param getTipContainer - returns the element the arrow is positioned in.
+   */
+  protected _watchTipPlacement(
+    overlayRef: OverlayRef,
+    getAnchorRect: () => AnchorRect,
+    getTipContainer: () => HTMLElement | null
+  ): Observable<TipPlacement> {
+    const position = overlayRef.getConfig()
+      .positionStrategy as FlexibleConnectedPositionStrategy;
+
+    return position.positionChanges.pipe(
+      map(({ connectionPair }) => {
+        const applied = this._getAppliedPosition(connectionPair);
+        const container = getTipContainer();
+
+        return {
+          position: applied,
+          arrowOffset: container
+            ? this._getArrowOffset(applied, getAnchorRect(), container)
+            : null,
+        };
+      }),
+      takeUntil(this._destroyed)
+    );
+  }
+
+  /** Maps the applied connection pair back to the physical side of the anchor */
+  private _getAppliedPosition(
+    pair: ConnectionPositionPair
+  ): AppliedTipPosition {
+    const isLtr = !this._dir || this._dir.value == 'ltr';
+
+    if (pair.originY === 'top' && pair.overlayY === 'bottom') return 'above';
+    if (pair.originY === 'bottom' && pair.overlayY === 'top') return 'below';
 
-    position.withPositions([
-      this._addOffset({ ...origin.main, ...overlay.main }),
-      this._addOffset({ ...origin.fallback, ...overlay.fallback }),
-    ]);
+    const isBefore = pair.originX === 'start' && pair.overlayX === 'end';
+
+    return isBefore === isLtr ? 'left' : 'right';
   }
 
-  /** Adds the configured offset to a position. Used as a hook for child classes. */
+  /**
+   * Measures where the anchor's centre is along the tip's edge, the offset differs from
+   * the centre of the container when the overlay is pushed by the viewport margin.
+   */
+  private _getArrowOffset(
+    position: AppliedTipPosition,
+    anchor: AnchorRect,
+    container: HTMLElement
+  ) {
+    const box = container.getBoundingClientRect();
+    const isVertical = position === 'above' || position === 'below';
+    const size = isVertical ? box.width : box.height;
+    const offset = isVertical
+      ? anchor.left + anchor.width / 2 - box.left
+      : anchor.top + anchor.height / 2 - box.top;
+
+    // too small to shift the arrow, keep it centred
+    if (size <= ARROW_EDGE_PADDING * 2) return size / 2;
+
+    return Math.min(
+      Math.max(offset, ARROW_EDGE_PADDING),
+      size - ARROW_EDGE_PADDING
+    );
+  }
+
+  /**
+   * Moves a position away from the anchor by the distance & along the anchor's side by the skid.
+   * The offsets of the CDK are physical, so the horizontal ones are flipped in RTL.
+   */
   protected _addOffset(position: ConnectedPosition): ConnectedPosition {
-    return position;
+    const distance = this._getDistanceOffset();
+    const skid = this._skid;
+
+    if (!distance && !skid) return position;
+
+    const toPhysical = (offset: number) => (this._isRtl() ? -offset : offset);
+
+    if (position.originY === 'top' && position.overlayY === 'bottom') {
+      return { ...position, offsetX: toPhysical(skid), offsetY: -distance };
+    }
+    if (position.originY === 'bottom' && position.overlayY === 'top') {
+      return { ...position, offsetX: toPhysical(skid), offsetY: distance };
+    }
+
+    const isBefore =
+      position.originX === 'start' && position.overlayX === 'end';
+
+    return {
+      ...position,
+      offsetX: toPhysical(isBefore ? -distance : distance),
+      offsetY: skid,
+    };
+  }
+
+  /** The main axis offset in px, on top of the styled gap */
+  private _getDistanceOffset() {
+    if (this._distance === null) return 0;
+
+    // the distance is measured from the arrow's tip, it can't overlap the anchor
+    return Math.max(this._distance, 0) + this._arrowSize - this._styledGap;
   }
 
   /**
    * Returns the origin position and a fallback position based on the user's position preference.
    * The fallback position is the inverse of the origin (e.g. `'below' -> 'above'`).
    */
-  private _getOrigin(): {
+  private _getOrigin(position: OverlayTipPosition): {
     main: OriginConnectionPosition;
     fallback: OriginConnectionPosition;
   } {
     const isLtr = !this._dir || this._dir.value == 'ltr';
-    const position = this._tipPosition;
+    const side = getTipSide(position);
+    const alignment = getTipAlignment(position);
     let originPosition: OriginConnectionPosition;
 
-    if (position == 'above' || position == 'below') {
+    if (!OVERLAY_TIP_POSITIONS.includes(position) && !environment.production) {
+      throw throwInvalidTutorialTipPosition();
+    }
+
+    if (side == 'above' || side == 'below') {
       originPosition = {
-        originX: 'center',
-        originY: position == 'above' ? 'top' : 'bottom',
+        originX: this._getHorizontalAlignment(alignment),
+        originY: side == 'above' ? 'top' : 'bottom',
       };
     } else if (
-      position == 'before' ||
-      (position == 'left' && isLtr) ||
-      (position == 'right' && !isLtr)
+      side == 'before' ||
+      (side == 'left' && isLtr) ||
+      (side == 'right' && !isLtr)
     ) {
-      originPosition = { originX: 'start', originY: 'center' };
+      originPosition = {
+        originX: 'start',
+        originY: this._getVerticalAlignment(alignment),
+      };
     } else if (
-      position == 'after' ||
-      (position == 'right' && isLtr) ||
-      (position == 'left' && !isLtr)
+      side == 'after' ||
+      (side == 'right' && isLtr) ||
+      (side == 'left' && !isLtr)
     ) {
-      originPosition = { originX: 'end', originY: 'center' };
+      originPosition = {
+        originX: 'end',
+        originY: this._getVerticalAlignment(alignment),
+      };
     } else if (!environment.production) {
       throw throwInvalidTutorialTipPosition();
     }
 
     const { x, y } = this._invertPosition(
       originPosition!.originX,
-      originPosition!.originY
+      originPosition!.originY,
+      position
     );
 
     return {
@@ -107,37 +471,51 @@ export class OverlayPositionBaseDirective implements OnDestroy {
   }
 
   /** Returns the overlay position and a fallback position based on the user's preference */
-  private _getOverlayPosition(): {
+  private _getOverlayPosition(position: OverlayTipPosition): {
     main: OverlayConnectionPosition;
     fallback: OverlayConnectionPosition;
   } {
     const isLtr = !this._dir || this._dir.value == 'ltr';
-    const position = this._tipPosition;
+    const side = getTipSide(position);
+    const alignment = getTipAlignment(position);
     let overlayPosition: OverlayConnectionPosition;
 
-    if (position == 'above') {
-      overlayPosition = { overlayX: 'center', overlayY: 'bottom' };
-    } else if (position == 'below') {
-      overlayPosition = { overlayX: 'center', overlayY: 'top' };
+    if (side == 'above') {
+      overlayPosition = {
+        overlayX: this._getHorizontalAlignment(alignment),
+        overlayY: 'bottom',
+      };
+    } else if (side == 'below') {
+      overlayPosition = {
+        overlayX: this._getHorizontalAlignment(alignment),
+        overlayY: 'top',
+      };
     } else if (
-      position == 'before' ||
-      (position == 'left' && isLtr) ||
-      (position == 'right' && !isLtr)
+      side == 'before' ||
+      (side == 'left' && isLtr) ||
+      (side == 'right' && !isLtr)
     ) {
-      overlayPosition = { overlayX: 'end', overlayY: 'center' };
+      overlayPosition = {
+        overlayX: 'end',
+        overlayY: this._getVerticalAlignment(alignment),
+      };
     } else if (
-      position == 'after' ||
-      (position == 'right' && isLtr) ||
-      (position == 'left' && !isLtr)
+      side == 'after' ||
+      (side == 'right' && isLtr) ||
+      (side == 'left' && !isLtr)
     ) {
-      overlayPosition = { overlayX: 'start', overlayY: 'center' };
+      overlayPosition = {
+        overlayX: 'start',
+        overlayY: this._getVerticalAlignment(alignment),
+      };
     } else if (!environment.production) {
       throw throwInvalidTutorialTipPosition();
     }
 
     const { x, y } = this._invertPosition(
       overlayPosition!.overlayX,
-      overlayPosition!.overlayY
+      overlayPosition!.overlayY,
+      position
     );
 
     return {
@@ -146,12 +524,33 @@ export class OverlayPositionBaseDirective implements OnDestroy {
     };
   }
 
-  /** Inverts an overlay position. */
+  /** Lines up the start, the end or the centre of the anchor & the overlay */
+  private _getHorizontalAlignment(
+    alignment: ReturnType<typeof getTipAlignment>
+  ): HorizontalConnectionPos {
+    return alignment === 'start' || alignment === 'end' ? alignment : 'center';
+  }
+
+  /** Lines up the top, the bottom or the centre of the anchor & the overlay */
+  private _getVerticalAlignment(
+    alignment: ReturnType<typeof getTipAlignment>
+  ): VerticalConnectionPos {
+    return alignment === 'top' || alignment === 'bottom' ? alignment : 'center';
+  }
+
+  /**
+   * Inverts an overlay position along the main axis, the alignment is kept.
+   * The horizontal positions are logical, so the inversion holds in RTL as well,
+   * e.g. `left` is `end` in RTL & its inversion `start` is the right side.
+   */
   private _invertPosition(
     x: HorizontalConnectionPos,
-    y: VerticalConnectionPos
+    y: VerticalConnectionPos,
+    position: OverlayTipPosition
   ) {
-    if (this._tipPosition === 'above' || this._tipPosition === 'below') {
+    const side = getTipSide(position);
+
+    if (side === 'above' || side === 'below') {
       if (y === 'top') {
         y = 'bottom';
       } else if (y === 'bottom') {
@@ -168,8 +567,27 @@ export class OverlayPositionBaseDirective implements OnDestroy {
     return { x, y };
   }
 
-  ngOnDestroy(): void {
+  /** Ends the subscriptions taken until _destroyed, e.g. the tip placement */
+  protected _dispose() {
     this._destroyed.next(null);
     this._destroyed.complete();
   }
 }
+
+/**
+ * Creates an overlay so that a tutorial tip could be attached.
+ * Has the basic functionality for the overlay positioning.
+ */
+@Directive()
+export class OverlayPositionBaseDirective
+  extends OverlayPositionBase
+  implements OnDestroy
+{
+  constructor(dir: Directionality) {
+    super(dir);
+  }
+
+  ngOnDestroy(): void {
+    this._dispose();
+  }
+}
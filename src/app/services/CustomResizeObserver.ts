@@ -1,11 +1,37 @@
 import { DOCUMENT } from '@angular/common';
-import { Inject, Injectable, OnDestroy } from '@angular/core';
-import { BehaviorSubject, Subject, takeUntil } from 'rxjs';
+import { Inject, Injectable, NgZone, OnDestroy } from '@angular/core';
+import {
+    BehaviorSubject,
+    Observable,
+    ReplaySubject,
+    Subject,
+    takeUntil,
+} from 'rxjs';
+
+/** The content box of an observed element */
+export type ObservedSize = Readonly<{ width: number; height: number }>;
+
+/** The subscribers of an observed element, it's unobserved once there are none left */
+interface ObservedTarget {
+    /** Replays the last size to the later subscribers */
+    sizes: ReplaySubject<ObservedSize>;
+    subscribers: number;
+}
 
 /**
- * Provides a mean to watch for viewport size changes.
+ * Provides a mean to watch for viewport & element size changes.
  * It is subtle & performant, but not suitable for SSR & IE11.
  * For other purposes use ViewportRuler.
+ *
+ * #### USAGE
+ * ```typescript
+ * // emits the viewport size
+ * customResizeObserver.observe$.subscribe(({ width }) => console.log(width));
+ *
+ * // emits the element's current size & every change, until unsubscribed,
+ * // outside the Angular zone
+ * customResizeObserver.observe(element).subscribe(({ height }) => console.log(height));
+ * ```
  */
 @Injectable({ providedIn: 'root' })
 export class CustomResizeObserver implements OnDestroy {
@@ -15,21 +41,80 @@ export class CustomResizeObserver implements OnDestroy {
         height: this._document.documentElement.clientHeight,
     });
     readonly observe$ = this._observe.pipe(takeUntil(this._until$));
+    /** Shared by the viewport & every observed element */
     private _resizeInstance: ResizeObserver;
+    private _targets = new Map<Element, ObservedTarget>();
+
+    constructor(
+        @Inject(DOCUMENT) private _document: Document,
+        private _ngZone: NgZone
+    ) {
+        // the callbacks don't trigger change detection, observe$ re-enters the zone
+        this._resizeInstance = this._ngZone.runOutsideAngular(() => {
+            const resizeInstance = new ResizeObserver((entries) => {
+                entries.forEach(({ target, contentRect }) => {
+                    const { width, height } = contentRect;
 
-    constructor(@Inject(DOCUMENT) private _document: Document) {
-        this._resizeInstance = new ResizeObserver((entries) => {
-            const { width, height } = entries[0].contentRect;
-            this._observe.next({ width, height });
+                    if (target === this._document.documentElement) {
+                        this._ngZone.run(() => this._observe.next({ width, height }));
+                    }
+
+                    this._targets.get(target)?.sizes.next({ width, height });
+                });
+            });
+
+            resizeInstance.observe(this._document.documentElement);
+            return resizeInstance;
         });
+    }
+
+    /**
+     * Watches the size of an element. The subscriptions are reference counted,
+     * the element is unobserved once the last subscriber is gone.
+     * @param element - the element to watch.
+     * @returns emits the element's current content box & every change, outside the Angular zone.
+     */
+    observe(element: Element): Observable<ObservedSize> {
+        return new Observable<ObservedSize>((subscriber) => {
+            const target = this._getTarget(element);
+            const subscription = target.sizes.subscribe(subscriber);
+
+            target.subscribers++;
+
+            return () => {
+                subscription.unsubscribe();
+
+                if (--target.subscribers) return;
+
+                this._targets.delete(element);
+                target.sizes.complete();
+                // the viewport is observed for observe$ as well
+                if (element !== this._document.documentElement) {
+                    this._resizeInstance.unobserve(element);
+                }
+            };
+        }).pipe(takeUntil(this._until$));
+    }
+
+    private _getTarget(element: Element) {
+        let target = this._targets.get(element);
+
+        if (!target) {
+            target = { sizes: new ReplaySubject<ObservedSize>(1), subscribers: 0 };
+            this._targets.set(element, target);
+            // ResizeObserver reports the current size once the element is observed
+            this._resizeInstance.observe(element);
+        }
 
-        this._resizeInstance.observe(this._document.documentElement);
+        return target;
     }
 
     ngOnDestroy(): void {
         this._until$.next(null);
         this._until$.complete();
         this._observe.complete();
+        this._targets.forEach(({ sizes }) => sizes.complete());
+        this._targets.clear();
         this._resizeInstance.disconnect();
     }
 }
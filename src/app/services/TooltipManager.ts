@@ -0,0 +1,132 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { distinctUntilChanged, takeUntil } from 'rxjs/operators';
+
+/** The group every tooltip belongs to unless another one is set */
+export const DEFAULT_TOOLTIP_GROUP = 'default';
+
+/** What the manager needs to know about a tooltip in order to control it */
+export interface ManagedTooltip {
+  readonly id: string;
+  readonly group: string;
+  readonly visible: boolean;
+  show(): void;
+  hide(): void;
+}
+
+/**
+ * Keeps track of every tooltip in the app. By default only one tooltip per group
+ * may be open at a time, opening a tooltip closes the other ones from its group.
+ *
+ * #### USAGE
+ * ```typescript
+ * // allow several tooltips of the `toolbar` group to be open at once
+ * tooltipManager.setSingleOpen('toolbar', false);
+ *
+ * // opens the tooltip from code, e.g. from a help shortcut
+ * tooltipManager.open('help-tooltip');
+ *
+ * tooltipManager.openTooltip$.subscribe((tooltip) => console.log(tooltip?.id));
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class TooltipManager implements OnDestroy {
+  private _until$ = new Subject();
+  private _registry = new Map<string, ManagedTooltip>();
+  /** The groups that allow more than one open tooltip */
+  private _multipleOpenGroups = new Set<string>();
+  /** The open tooltips, the last one is the most recently opened */
+  private _openTooltips: ManagedTooltip[] = [];
+
+  private _openTooltip = new BehaviorSubject<ManagedTooltip | null>(null);
+  /** Emits the most recently opened tooltip that is still open, or null */
+  readonly openTooltip$ = this._openTooltip.pipe(
+    distinctUntilChanged(),
+    takeUntil(this._until$)
+  );
+
+  register(tooltip: ManagedTooltip) {
+    this._registry.set(tooltip.id, tooltip);
+  }
+
+  unregister(tooltip: ManagedTooltip) {
+    // another tooltip might have taken over the id in the meantime
+    if (this._registry.get(tooltip.id) === tooltip) {
+      this._registry.delete(tooltip.id);
+    }
+
+    this.notifyHidden(tooltip);
+  }
+
+  /**
+   * Sets whether only one tooltip of the group may be open at a time.
+   * @param group - the group to set the policy for.
+   * @param singleOpen - true by default for every group.
+   */
+  setSingleOpen(group: string, singleOpen: boolean) {
+    if (singleOpen) this._multipleOpenGroups.delete(group);
+    else this._multipleOpenGroups.add(group);
+  }
+
+  /** Called by a tooltip once it was opened, closes the other tooltips of its group if needed */
+  notifyShown(tooltip: ManagedTooltip) {
+    if (!this._multipleOpenGroups.has(tooltip.group)) {
+      this._openTooltips
+        .filter((t) => t !== tooltip && t.group === tooltip.group)
+        .forEach((t) => t.hide());
+    }
+
+    this._openTooltips = [
+      ...this._openTooltips.filter((t) => t !== tooltip),
+      tooltip,
+    ];
+    this._emitOpenTooltip();
+  }
+
+  /** Called by a tooltip once it was closed */
+  notifyHidden(tooltip: ManagedTooltip) {
+    if (!this._openTooltips.includes(tooltip)) return;
+
+    this._openTooltips = this._openTooltips.filter((t) => t !== tooltip);
+    this._emitOpenTooltip();
+  }
+
+  /**
+   * Opens a registered tooltip.
+   * @returns false if there's no tooltip registered with that id.
+   */
+  open(id: string) {
+    const tooltip = this._registry.get(id);
+
+    tooltip?.show();
+    return !!tooltip;
+  }
+
+  /** Closes a registered tooltip */
+  close(id: string) {
+    this._registry.get(id)?.hide();
+  }
+
+  /**
+   * Closes every open tooltip.
+   * @param group - closes only the tooltips of this group (optional).
+   */
+  closeAll(group?: string) {
+    this._openTooltips
+      .filter((t) => group === undefined || t.group === group)
+      .forEach((t) => t.hide());
+  }
+
+  private _emitOpenTooltip() {
+    const { length } = this._openTooltips;
+    this._openTooltip.next(length ? this._openTooltips[length - 1] : null);
+  }
+
+  ngOnDestroy(): void {
+    this._until$.next(null);
+    this._until$.complete();
+    this._openTooltip.complete();
+    this._registry.clear();
+    this._openTooltips = [];
+  }
+}
@@ -0,0 +1,105 @@
+import { Injectable } from '@angular/core';
+
+/** The themes styled in tooltip.component.scss, `auto` follows the user's color scheme & contrast */
+export const BUILT_IN_TOOLTIP_THEMES = [
+  'light',
+  'dark',
+  'info',
+  'warn',
+  'error',
+  'auto',
+] as const;
+
+export type BuiltInTooltipTheme = typeof BUILT_IN_TOOLTIP_THEMES[number];
+
+/** The values of the tooltip's CSS custom properties, the omitted ones fall back to `light` */
+export interface CustomTooltipTheme {
+  background?: string;
+  textColor?: string;
+  boldTextColor?: string;
+  borderColor?: string;
+  shadow?: string;
+}
+
+/** Maps the theme's keys to the CSS custom properties of a component, the unmapped keys are skipped */
+export type ThemeProperties = Partial<Record<keyof CustomTooltipTheme, string>>;
+
+/** Maps the theme's keys to the CSS custom properties used by tooltip.component.scss */
+const THEME_PROPERTIES: ThemeProperties = {
+  background: '--custom-tooltip-background',
+  textColor: '--custom-tooltip-text-color',
+  boldTextColor: '--custom-tooltip-bold-text-color',
+  borderColor: '--custom-tooltip-border-color',
+  shadow: '--custom-tooltip-shadow',
+};
+
+function throwBuiltInTooltipTheme(name: string) {
+  return new Error(
+    `The tooltip theme "${name}" is built-in and can't be registered again.
+            Style it through the .custom-tooltip-theme-${name} class instead.`
+  );
+}
+
+export function isBuiltInTooltipTheme(
+  name: string
+): name is BuiltInTooltipTheme {
+  return (BUILT_IN_TOOLTIP_THEMES as readonly string[]).includes(name);
+}
+
+/**
+ * Holds the tooltip themes registered by the app, on top of the built-in ones.
+ * The walkthrough steps take the same themes.
+ *
+ * #### USAGE
+ * ```typescript
+ * tooltipThemeRegistry.register('brand', {
+ *   background: '#1d1b3a',
+ *   textColor: '#e8e6ff',
+ *   borderColor: '#7c6cff',
+ * });
+ * ```
+ * ```html
+ * <any-html-tag customTooltip="Add here some tooltip" customTooltipTheme="brand"></any-html-tag>
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class TooltipThemeRegistry {
+  private _themes = new Map<string, CustomTooltipTheme>();
+
+  register(name: string, theme: CustomTooltipTheme) {
+    if (isBuiltInTooltipTheme(name)) throw throwBuiltInTooltipTheme(name);
+
+    this._themes.set(name, theme);
+  }
+
+  unregister(name: string) {
+    this._themes.delete(name);
+  }
+
+  has(name: string) {
+    return isBuiltInTooltipTheme(name) || this._themes.has(name);
+  }
+
+  /**
+   * Returns the CSS custom properties of a registered theme,
+   * null for the built-in & the unknown themes.
+   * @param properties - the custom properties of the themed component, the tooltip's by default.
+   */
+  getStyles(
+    name: string,
+    properties: ThemeProperties = THEME_PROPERTIES
+  ): Record<string, string> | null {
+    const theme = this._themes.get(name);
+
+    if (!theme) return null;
+
+    return (Object.keys(theme) as (keyof CustomTooltipTheme)[]).reduce(
+      (acc, key) => {
+        const value = theme[key];
+        const property = properties[key];
+        return value && property ? { ...acc, [property]: value } : acc;
+      },
+      {} as Record<string, string>
+    );
+  }
+}
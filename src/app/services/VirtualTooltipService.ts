@@ -0,0 +1,278 @@
+import { Directionality } from '@angular/cdk/bidi';
+import {
+  FlexibleConnectedPositionStrategy,
+  FlexibleConnectedPositionStrategyOrigin,
+  Overlay,
+  OverlayRef,
+  ScrollDispatcher,
+} from '@angular/cdk/overlay';
+import { ComponentPortal } from '@angular/cdk/portal';
+import { ComponentRef, Inject, Injectable, NgZone } from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import {
+  CustomTooltipDefaultOptions,
+  CUSTOM_TOOLTIP_DEFAULT_OPTIONS,
+  TooltipComponent,
+  TOOLTIP_ARROW_SIZE,
+  TOOLTIP_STYLED_GAP,
+} from '../custom-modules/tooltip.component';
+import {
+  AnchorRect,
+  OverlayPositionBase,
+  OverlayTipAxis,
+  OverlayTipPosition,
+} from '../directives/overlay-position-base.directive';
+
+/** A point in viewport coordinates */
+export type VirtualTooltipPoint = Readonly<{ x: number; y: number }>;
+
+/**
+ * What a virtual tooltip is anchored to:
+ * - a point in viewport coordinates, e.g. a data point of a canvas chart.
+ * - a function returning the current box, e.g. of a text selection range.
+ *   It's called again on scroll & on updatePosition().
+ * - an element without a tooltip directive of its own, e.g. an SVG `<rect>`.
+ */
+export type VirtualTooltipAnchor =
+  | VirtualTooltipPoint
+  | (() => DOMRect)
+  | Element;
+
+/** The options of a virtual tooltip, the omitted ones fall back to CUSTOM_TOOLTIP_DEFAULT_OPTIONS */
+export interface VirtualTooltipConfig {
+  content: string;
+  position?: OverlayTipPosition;
+  /** The positions tried in order when the preferred one doesn't fit */
+  fallbackPositions?: OverlayTipPosition[];
+  /** The axis the `auto` position tries first */
+  autoAxis?: OverlayTipAxis;
+  /** The gap in px between the anchor & the tip of the arrow, the styled gap by default */
+  distance?: number | null;
+  /** Shifts the tooltip in px along the anchor's side, towards the end or the bottom */
+  skid?: number;
+  theme?: string;
+  color?: string;
+  borderColor?: string;
+  bold?: boolean;
+  width?: number;
+  textSize?: string;
+}
+
+/**
+ * A tooltip opened by VirtualTooltipService. Placed with the same rules as the
+ * customTooltip directive, including the inverted fallback when the position doesn't fit.
+ */
+export class VirtualTooltipRef extends OverlayPositionBase {
+  private readonly _closed = new Subject<void>();
+  /** Emits once the tooltip was closed */
+  readonly closed: Observable<void> = this._closed.asObservable();
+  private _componentRef: ComponentRef<TooltipComponent>;
+  private _isClosed = false;
+  /** Created along with the ref, it's never reset */
+  protected override _overlayRef: OverlayRef;
+  protected override _arrowSize = TOOLTIP_ARROW_SIZE;
+  protected override _styledGap = TOOLTIP_STYLED_GAP;
+
+  constructor(
+    private _anchor: VirtualTooltipAnchor,
+    config: VirtualTooltipConfig,
+    overlay: Overlay,
+    scrollDispatcher: ScrollDispatcher,
+    private _ngZone: NgZone,
+    dir: Directionality
+  ) {
+    super(dir);
+
+    if (config.position) this._tipPosition = config.position;
+    if (config.autoAxis) this._autoPrimaryAxis = config.autoAxis;
+    if (config.distance !== undefined) this._distance = config.distance;
+    if (config.skid) this._skid = config.skid;
+    this._fallbackPositions = config.fallbackPositions || [];
+
+    this._overlayRef = overlay.create({
+      positionStrategy: overlay
+        .position()
+        .flexibleConnectedTo(this._getConnectedOrigin())
+        .withFlexibleDimensions(false)
+        .withViewportMargin(this._viewportMargin),
+      scrollStrategy: overlay.scrollStrategies.reposition({
+        scrollThrottle: 20,
+      }),
+    });
+    this._updatePosition(this._overlayRef);
+
+    // the logical positions, e.g. `before`, move to the other side along with the direction
+    dir.change.pipe(takeUntil(this._destroyed)).subscribe(() => {
+      this._updatePosition(this._overlayRef);
+      // flips the arrow as well
+      this._applyConfig({});
+    });
+
+    // a function anchor is the only one whose box isn't known to the overlay
+    if (typeof this._anchor === 'function') {
+      this._ngZone.runOutsideAngular(() =>
+        scrollDispatcher
+          .scrolled(20)
+          .pipe(takeUntil(this._destroyed))
+          .subscribe(() => this.updatePosition())
+      );
+    }
+
+    this._watchTipPlacement(
+      this._overlayRef,
+      () => this._getAnchorRect(),
+      () =>
+        this._overlayRef.overlayElement.querySelector<HTMLElement>(
+          '.custom-tooltip'
+        )
+    ).subscribe(({ position, arrowOffset }) =>
+      this._ngZone.run(() => {
+        const instance = this._componentRef?.instance;
+
+        if (!instance) return;
+
+        instance.tipPosition = position;
+        instance.arrowOffset = arrowOffset;
+        this._componentRef.changeDetectorRef.detectChanges();
+      })
+    );
+
+    this._componentRef = this._overlayRef.attach(
+      new ComponentPortal(TooltipComponent)
+    );
+    this._applyConfig(config);
+  }
+
+  /** Replaces the tooltip text */
+  updateContent(content: string) {
+    this._applyConfig({ content });
+  }
+
+  /**
+   * Moves the tooltip, e.g. along with the pointer over a chart.
+   * @param anchor - the new anchor, re-measures the current one if omitted.
+   * @param position - the new preferred position (optional).
+   */
+  updatePosition(
+    anchor?: VirtualTooltipAnchor,
+    position?: OverlayTipPosition
+  ) {
+    if (this._isClosed) return;
+
+    if (anchor) this._anchor = anchor;
+    if (position) this._tipPosition = position;
+    // `auto` measures the anchor at its new place
+    if (position || this._tipPosition === 'auto') {
+      this._updatePosition(this._overlayRef);
+    }
+
+    this._getPositionStrategy().setOrigin(this._getConnectedOrigin());
+    this._overlayRef.updatePosition();
+  }
+
+  close() {
+    if (this._isClosed) return;
+
+    this._isClosed = true;
+    this._overlayRef.dispose();
+    this._dispose();
+    this._closed.next();
+    this._closed.complete();
+  }
+
+  private _applyConfig(config: Partial<VirtualTooltipConfig>) {
+    const instance = this._componentRef.instance;
+
+    if (config.content !== undefined) instance.tooltip = config.content;
+    if (config.theme) instance.theme = config.theme;
+    if (config.color) instance.textColor = config.color;
+    if (config.borderColor) instance.borderColor = config.borderColor;
+    if (config.width) instance.width = config.width;
+    if (config.textSize) instance.textSize = config.textSize;
+    if (config.bold !== undefined) {
+      instance.appliedTextClass = config.bold ? 'bold-text' : 'simple-text';
+    }
+    instance.tipPosition = this._tipPosition;
+    instance.isRtl = this._isRtl();
+
+    this._componentRef.changeDetectorRef.detectChanges();
+    // the size of the tooltip might have changed, `auto` measures it
+    if (this._tipPosition === 'auto') this._updatePosition(this._overlayRef);
+    this._overlayRef.updatePosition();
+  }
+
+  private _getPositionStrategy() {
+    return this._overlayRef.getConfig()
+      .positionStrategy as FlexibleConnectedPositionStrategy;
+  }
+
+  private _getConnectedOrigin(): FlexibleConnectedPositionStrategyOrigin {
+    const anchor = this._anchor;
+
+    if (typeof anchor === 'function') {
+      const { left, top, width, height } = anchor();
+      return { x: left, y: top, width, height };
+    }
+
+    return anchor;
+  }
+
+  protected override _getAnchorRect(): AnchorRect {
+    const anchor = this._anchor;
+
+    if (typeof anchor === 'function') return anchor();
+    if (anchor instanceof Element) return anchor.getBoundingClientRect();
+
+    return { left: anchor.x, top: anchor.y, width: 0, height: 0 };
+  }
+}
+
+/**
+ * Opens the custom tooltip at anything the customTooltip directive can't be put on:
+ * a point, a box or an element rendered by a library.
+ *
+ * #### USAGE
+ * ```typescript
+ * // a data point of a canvas chart
+ * const ref = virtualTooltip.open({ x: 120, y: 80 }, { content: '42 visits', position: 'above' });
+ * ref.updateContent('43 visits');
+ * ref.updatePosition({ x: 140, y: 76 });
+ * ref.close();
+ *
+ * // the selected text
+ * const range = document.getSelection()!.getRangeAt(0);
+ * virtualTooltip.open(() => range.getBoundingClientRect(), { content: 'Copy' });
+ *
+ * // a bar of an SVG chart
+ * virtualTooltip.open(barElement, { content: 'Q3', theme: 'dark' });
+ * ```
+ */
+@Injectable({ providedIn: 'root' })
+export class VirtualTooltipService {
+  constructor(
+    private _overlay: Overlay,
+    private _scrollDispatcher: ScrollDispatcher,
+    private _ngZone: NgZone,
+    private _dir: Directionality,
+    @Inject(CUSTOM_TOOLTIP_DEFAULT_OPTIONS)
+    private _defaults: Partial<CustomTooltipDefaultOptions>
+  ) {}
+
+  open(anchor: VirtualTooltipAnchor, config: VirtualTooltipConfig) {
+    return new VirtualTooltipRef(
+      anchor,
+      {
+        position: this._defaults.position,
+        autoAxis: this._defaults.autoAxis,
+        distance: this._defaults.distance,
+        skid: this._defaults.skid,
+        ...config,
+      },
+      this._overlay,
+      this._scrollDispatcher,
+      this._ngZone,
+      this._dir
+    );
+  }
+}